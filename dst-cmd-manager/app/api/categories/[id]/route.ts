@@ -0,0 +1,5 @@
+import { itemRoutes } from '../../library-file';
+
+export const dynamic = 'force-dynamic';
+
+export const { GET, PUT, DELETE } = itemRoutes('categories');
@@ -0,0 +1,5 @@
+import { collectionRoutes } from '../library-file';
+
+export const dynamic = 'force-dynamic';
+
+export const { GET, POST } = collectionRoutes('commands');
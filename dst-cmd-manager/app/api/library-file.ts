@@ -0,0 +1,210 @@
+/**
+ * Library File
+ * Server-side store behind the app/api route handlers: commands, tags and
+ * categories kept in one JSON file so a team can share a library. Writes are
+ * queued one at a time and replace the file atomically, and are only
+ * accepted with the token in DST_LIBRARY_TOKEN.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { NextResponse } from 'next/server';
+import { validateCategory, validateCommand, validateTag } from '@/components/library-transfer';
+import type { Category, Command, Tag } from '@/components/types';
+
+export interface LibraryFile {
+  version: 1;
+  updatedAt: string;
+  commands: Record<string, Command>;
+  tags: Record<string, Tag>;
+  categories: Record<string, Category>;
+}
+
+export type CollectionName = 'commands' | 'tags' | 'categories';
+
+const VALIDATORS: Record<CollectionName, (value: unknown) => Command | Tag | Category | string> = {
+  commands: validateCommand,
+  tags: validateTag,
+  categories: validateCategory
+};
+
+export const COLLECTION_NAMES = Object.keys(VALIDATORS) as CollectionName[];
+
+// Override with DST_LIBRARY_FILE, e.g. to point at a mounted volume
+const LIBRARY_FILE = process.env.DST_LIBRARY_FILE || path.join(process.cwd(), 'data', 'library.json');
+
+type ItemContext = { params: Promise<{ id: string }> };
+
+export class RequestError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+const emptyLibrary = (): LibraryFile => ({
+  version: 1,
+  updatedAt: new Date(0).toISOString(),
+  commands: {},
+  tags: {},
+  categories: {}
+});
+
+/**
+ * Returns null while no library has been saved on the server yet
+ */
+export async function readLibraryFile(): Promise<LibraryFile | null> {
+  try {
+    return { ...emptyLibrary(), ...JSON.parse(await fs.readFile(LIBRARY_FILE, 'utf8')) };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Applies a change to the file. Changes run one after another so concurrent
+ * requests cannot overwrite each other.
+ */
+export function updateLibraryFile<T>(update: (library: LibraryFile) => T): Promise<T> {
+  const run = writeQueue.then(async () => {
+    const library = (await readLibraryFile()) ?? emptyLibrary();
+    const result = update(library);
+    library.updatedAt = new Date().toISOString();
+
+    // Write next to the target and rename, so readers never see a partial file
+    await fs.mkdir(path.dirname(LIBRARY_FILE), { recursive: true });
+    const tempFile = `${LIBRARY_FILE}.${process.pid}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(library, null, 2));
+    await fs.rename(tempFile, LIBRARY_FILE);
+    return result;
+  });
+  writeQueue = run.catch(() => undefined);
+  return run;
+}
+
+export function validateRecord(collection: CollectionName, value: unknown): Command | Tag | Category {
+  const result = VALIDATORS[collection](value);
+  if (typeof result === 'string') throw new RequestError(`Invalid record: ${result}`);
+  return result;
+}
+
+const digest = (text: string) => createHash('sha256').update(text).digest();
+
+/**
+ * Checks the `Authorization: Bearer <token>` header of a write against
+ * DST_LIBRARY_TOKEN. Without a configured token the library is read-only.
+ */
+export function requireWriteToken(request: Request) {
+  const expected = process.env.DST_LIBRARY_TOKEN;
+  if (!expected) {
+    throw new RequestError('Writes are disabled: DST_LIBRARY_TOKEN is not set on the server', 403);
+  }
+  const token = /^Bearer\s+(.+)$/i.exec(request.headers.get('Authorization') || '')?.[1] ?? '';
+  // Hashing first gives equal lengths, which timingSafeEqual requires
+  if (!token || !timingSafeEqual(digest(token), digest(expected))) {
+    throw new RequestError('Missing or invalid library token', 401);
+  }
+}
+
+export async function readJson(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    throw new RequestError('Request body is not valid JSON');
+  }
+}
+
+export function errorResponse(error: unknown) {
+  if (error instanceof RequestError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error('Library API error:', error);
+  return NextResponse.json({ error: 'Library storage failed' }, { status: 500 });
+}
+
+/**
+ * Handlers for /api/<collection>: list and create
+ */
+export function collectionRoutes(collection: CollectionName) {
+  return {
+    GET: async () => {
+      try {
+        const library = (await readLibraryFile()) ?? emptyLibrary();
+        return NextResponse.json(Object.values(library[collection]));
+      } catch (error) {
+        return errorResponse(error);
+      }
+    },
+
+    POST: async (request: Request) => {
+      try {
+        requireWriteToken(request);
+        const record = validateRecord(collection, await readJson(request));
+        await updateLibraryFile(library => {
+          const records = library[collection] as Record<string, typeof record>;
+          if (String(record.id) in records) {
+            throw new RequestError(`Record ${record.id} already exists`, 409);
+          }
+          records[String(record.id)] = record;
+        });
+        return NextResponse.json(record, { status: 201 });
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  };
+}
+
+/**
+ * Handlers for /api/<collection>/<id>: read, create or replace, delete
+ */
+export function itemRoutes(collection: CollectionName) {
+  return {
+    GET: async (_request: Request, { params }: ItemContext) => {
+      try {
+        const { id } = await params;
+        const record = ((await readLibraryFile()) ?? emptyLibrary())[collection][id];
+        return record
+          ? NextResponse.json(record)
+          : NextResponse.json({ error: `Record ${id} not found` }, { status: 404 });
+      } catch (error) {
+        return errorResponse(error);
+      }
+    },
+
+    PUT: async (request: Request, { params }: ItemContext) => {
+      try {
+        requireWriteToken(request);
+        const { id } = await params;
+        const record = validateRecord(collection, await readJson(request));
+        if (String(record.id) !== id) {
+          throw new RequestError(`Record id ${record.id} does not match the URL`);
+        }
+        await updateLibraryFile(library => {
+          (library[collection] as Record<string, typeof record>)[id] = record;
+        });
+        return NextResponse.json(record);
+      } catch (error) {
+        return errorResponse(error);
+      }
+    },
+
+    // Deleting a record that is already gone succeeds, so retries are safe
+    DELETE: async (request: Request, { params }: ItemContext) => {
+      try {
+        requireWriteToken(request);
+        const { id } = await params;
+        await updateLibraryFile(library => {
+          delete library[collection][id];
+        });
+        return new NextResponse(null, { status: 204 });
+      } catch (error) {
+        return errorResponse(error);
+      }
+    }
+  };
+}
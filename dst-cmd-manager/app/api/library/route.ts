@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import {
+  errorResponse,
+  readJson,
+  readLibraryFile,
+  requireWriteToken,
+  updateLibraryFile,
+  validateRecord,
+  RequestError,
+  COLLECTION_NAMES
+} from '../library-file';
+
+export const dynamic = 'force-dynamic';
+
+// Whole library in one request, for the initial load
+export async function GET() {
+  try {
+    const library = await readLibraryFile();
+    return NextResponse.json({
+      initialized: library !== null,
+      updatedAt: library?.updatedAt ?? null,
+      commands: Object.values(library?.commands ?? {}),
+      tags: Object.values(library?.tags ?? {}),
+      categories: Object.values(library?.categories ?? {})
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Seeds an empty server from the first browser that connects; refused once
+// the server has a library, so it can never overwrite shared data
+export async function PUT(request: Request) {
+  try {
+    requireWriteToken(request);
+    const body = await readJson(request);
+    if (typeof body !== 'object' || body === null) {
+      throw new RequestError('Expected an object with commands, tags and categories');
+    }
+    const seed = Object.fromEntries(COLLECTION_NAMES.map(collection => {
+      const records = (body as Record<string, unknown>)[collection];
+      if (!Array.isArray(records)) throw new RequestError(`Expected ${collection} to be an array`);
+      return [collection, records.map(record => validateRecord(collection, record))];
+    }));
+
+    await updateLibraryFile(library => {
+      if (COLLECTION_NAMES.some(collection => Object.keys(library[collection]).length > 0)) {
+        throw new RequestError('The server already has a library', 409);
+      }
+      for (const collection of COLLECTION_NAMES) {
+        for (const record of seed[collection]) {
+          (library[collection] as Record<string, typeof record>)[String(record.id)] = record;
+        }
+      }
+    });
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
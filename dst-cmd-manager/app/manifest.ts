@@ -0,0 +1,17 @@
+import type { MetadataRoute } from 'next';
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'DST Command Manager',
+    short_name: 'DST Commands',
+    description: "Organize and copy Don't Starve Together console commands",
+    start_url: '/',
+    display: 'standalone',
+    background_color: '#1e293b',
+    theme_color: '#1e293b',
+    icons: [
+      { src: '/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' },
+      { src: '/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'maskable' }
+    ]
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Admin Access
+ * Admin mode is unlocked with a passphrase. Only a salted PBKDF2 hash of it
+ * is stored, next to the library. Since everything runs in the browser this
+ * keeps casual visitors out of admin mode; it does not protect the stored
+ * data from someone with access to the browser profile.
+ */
+
+export interface PassphraseRecord {
+  algorithm: 'PBKDF2-SHA-256';
+  iterations: number;
+  salt: string;
+  hash: string;
+}
+
+export const ADMIN_PASSPHRASE_KEY = 'dstsetting:adminPassphrase';
+export const MIN_PASSPHRASE_LENGTH = 8;
+// Admin mode locks itself after this long without input
+export const ADMIN_IDLE_TIMEOUT_MS = 15 * 60 * 1000;
+
+// Set NEXT_PUBLIC_VIEWER_ONLY=true at build time to hide admin mode entirely
+export const VIEWER_ONLY = process.env.NEXT_PUBLIC_VIEWER_ONLY === 'true';
+
+const ITERATIONS = 210000;
+const SALT_BYTES = 16;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const deriveHash = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt: salt as BufferSource, iterations }, key, 256);
+  return new Uint8Array(bits);
+};
+
+export function validateNewPassphrase(passphrase: string, confirmation: string): string | null {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    return `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`;
+  }
+  if (passphrase !== confirmation) {
+    return 'Passphrases do not match';
+  }
+  return null;
+}
+
+/**
+ * Hashes a new passphrase with a fresh random salt
+ */
+export async function createPassphraseRecord(passphrase: string): Promise<PassphraseRecord> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await deriveHash(passphrase, salt, ITERATIONS);
+  return { algorithm: 'PBKDF2-SHA-256', iterations: ITERATIONS, salt: toBase64(salt), hash: toBase64(hash) };
+}
+
+export async function verifyPassphrase(passphrase: string, record: PassphraseRecord): Promise<boolean> {
+  const expected = fromBase64(record.hash);
+  const actual = await deriveHash(passphrase, fromBase64(record.salt), record.iterations);
+  // Compare every byte so timing does not reveal how much matched
+  let difference = expected.length ^ actual.length;
+  for (let i = 0; i < Math.min(expected.length, actual.length); i++) {
+    difference |= expected[i] ^ actual[i];
+  }
+  return difference === 0;
+}
@@ -0,0 +1,107 @@
+/**
+ * Command Filter
+ * Composable filter model for the command grid: multiple tags combined with
+ * AND/OR, a category, favorites, and facets for untagged, uncategorized and
+ * imageless commands
+ */
+
+import type { Command } from './types';
+
+export type TagMode = 'and' | 'or';
+
+export interface CommandFilter {
+  tags: string[];
+  tagMode: TagMode;
+  category: string | null;
+  uncategorized: boolean;
+  favorites: boolean;
+  untagged: boolean;
+  noImage: boolean;
+}
+
+// Per-viewer facts the filter needs but that are not stored on the command
+export interface FilterContext {
+  isFavorited: (cmd: Command) => boolean;
+  hasImage: (cmd: Command) => boolean;
+}
+
+export const EMPTY_FILTER: CommandFilter = {
+  tags: [],
+  tagMode: 'or',
+  category: null,
+  uncategorized: false,
+  favorites: false,
+  untagged: false,
+  noImage: false
+};
+
+export function isFilterEmpty(filter: CommandFilter): boolean {
+  return filter.tags.length === 0
+    && filter.category === null
+    && !filter.uncategorized
+    && !filter.favorites
+    && !filter.untagged
+    && !filter.noImage;
+}
+
+export function matchesFilter(cmd: Command, filter: CommandFilter, context: FilterContext): boolean {
+  const commandTags = cmd.tags || [];
+
+  if (filter.tags.length > 0) {
+    const matchesTags = filter.tagMode === 'and'
+      ? filter.tags.every(tag => commandTags.includes(tag))
+      : filter.tags.some(tag => commandTags.includes(tag));
+    if (!matchesTags) return false;
+  }
+  if (filter.untagged && commandTags.length > 0) return false;
+  if (filter.category !== null && cmd.category !== filter.category) return false;
+  if (filter.uncategorized && cmd.category) return false;
+  if (filter.favorites && !context.isFavorited(cmd)) return false;
+  if (filter.noImage && context.hasImage(cmd)) return false;
+  return true;
+}
+
+export function applyFilter(commands: Command[], filter: CommandFilter, context: FilterContext): Command[] {
+  return isFilterEmpty(filter) ? commands : commands.filter(cmd => matchesFilter(cmd, filter, context));
+}
+
+/**
+ * Toggles a tag in the selection; selecting a tag turns off "no tags"
+ */
+export function toggleFilterTag(filter: CommandFilter, tagName: string): CommandFilter {
+  const tags = filter.tags.includes(tagName)
+    ? filter.tags.filter(t => t !== tagName)
+    : [...filter.tags, tagName];
+  return { ...filter, tags, untagged: tags.length > 0 ? false : filter.untagged };
+}
+
+/**
+ * Selects a category, or clears it when it is already selected
+ */
+export function toggleFilterCategory(filter: CommandFilter, categoryId: string): CommandFilter {
+  return {
+    ...filter,
+    category: filter.category === categoryId ? null : categoryId,
+    uncategorized: false
+  };
+}
+
+export function toggleFilterUncategorized(filter: CommandFilter): CommandFilter {
+  return { ...filter, uncategorized: !filter.uncategorized, category: null };
+}
+
+export function toggleFilterUntagged(filter: CommandFilter): CommandFilter {
+  return { ...filter, untagged: !filter.untagged, tags: [] };
+}
+
+/**
+ * Keeps the filter consistent when a tag is renamed or deleted
+ * (pass null as the new name for a deletion)
+ */
+export function renameFilterTag(filter: CommandFilter, oldName: string, newName: string | null): CommandFilter {
+  if (!filter.tags.includes(oldName)) return filter;
+  const tags = newName === null
+    ? filter.tags.filter(t => t !== oldName)
+    : filter.tags.map(t => t === oldName ? newName : t);
+  return { ...filter, tags };
+}
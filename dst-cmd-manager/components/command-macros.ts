@@ -0,0 +1,115 @@
+/**
+ * Command Macros
+ * A macro is an ordered list of command ids copied as a single console line.
+ * Steps are resolved against the current commands every time, so edits to a
+ * referenced command show up in the macro immediately.
+ */
+
+import type { Command, Macro } from './types';
+
+export interface MacroStep {
+  commandId: number;
+  command: Command | null;
+}
+
+/**
+ * Pairs each step with its command, or null when the command was deleted
+ */
+export function resolveMacro(macro: Macro, commands: Command[]): MacroStep[] {
+  return macro.commandIds.map(commandId => ({
+    commandId,
+    command: commands.find(c => c.id === commandId) || null
+  }));
+}
+
+export function getMissingCommandIds(macro: Macro, commands: Command[]): number[] {
+  return resolveMacro(macro, commands)
+    .filter(step => step.command === null)
+    .map(step => step.commandId);
+}
+
+// Opening bracket of a long string or block comment: [[, [=[, [==[ ...
+const LONG_BRACKET = /\[(=*)\[/y;
+
+const matchLongBracket = (code: string, index: number) => {
+  LONG_BRACKET.lastIndex = index;
+  return LONG_BRACKET.exec(code);
+};
+
+// Index just past the long bracket closing the one opened at `index`
+const skipLongBracket = (code: string, index: number, open: RegExpExecArray) => {
+  const close = code.indexOf(`]${open[1]}]`, index + open[0].length);
+  return close === -1 ? code.length : close + open[1].length + 2;
+};
+
+/**
+ * Removes `--` line comments and `--[[ ]]` block comments, leaving string
+ * literals (which may contain `--`) untouched
+ */
+export function stripLuaComments(code: string): string {
+  let result = '';
+  let i = 0;
+  while (i < code.length) {
+    const char = code[i];
+    const longString = char === '[' ? matchLongBracket(code, i) : null;
+    if (char === '"' || char === "'") {
+      let end = i + 1;
+      while (end < code.length && code[end] !== char && code[end] !== '\n') {
+        end += code[end] === '\\' ? 2 : 1;
+      }
+      result += code.slice(i, end + 1);
+      i = end + 1;
+    } else if (longString) {
+      const end = skipLongBracket(code, i, longString);
+      result += code.slice(i, end);
+      i = end;
+    } else if (code.startsWith('--', i)) {
+      const blockComment = matchLongBracket(code, i + 2);
+      if (blockComment) {
+        // Keeps the code on either side from running together
+        result += ' ';
+        i = skipLongBracket(code, i + 2, blockComment);
+      } else {
+        const newline = code.indexOf('\n', i);
+        i = newline === -1 ? code.length : newline;
+      }
+    } else {
+      result += char;
+      i++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Flattens command code to one statement for the console: drops comments,
+ * which would otherwise swallow every later step once lines are joined,
+ * joins the lines with spaces and removes trailing semicolons
+ */
+export function toConsoleStatement(code: string): string {
+  return stripLuaComments(code)
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .join(' ')
+    .replace(/;+\s*$/, '');
+}
+
+/**
+ * Builds the `;`-joined console line, skipping deleted commands
+ */
+export function buildMacroCode(macro: Macro, commands: Command[]): string {
+  return resolveMacro(macro, commands)
+    .filter(step => step.command !== null)
+    .map(step => toConsoleStatement(step.command!.command))
+    .filter(Boolean)
+    .join('; ');
+}
+
+export function findMacrosUsingCommand(macros: Macro[], commandId: number): Macro[] {
+  return macros.filter(macro => macro.commandIds.includes(commandId));
+}
+
+export function nextMacroId(macros: Macro[]): number {
+  return macros.length > 0 ? Math.max(...macros.map(m => m.id)) + 1 : 1;
+}
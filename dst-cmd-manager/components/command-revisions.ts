@@ -0,0 +1,113 @@
+/**
+ * Command Revisions
+ * Every save of a command appends a revision so earlier versions can be
+ * compared and restored. Uploaded images are too large to copy into every
+ * revision, so they are recorded by reference only.
+ */
+
+import type { Command } from './types';
+
+export interface CommandRevision {
+  savedAt: string;
+  name: string;
+  command: string;
+  tags: string[];
+  category: string | null;
+  image: string;
+}
+
+export type DiffRowType = 'same' | 'removed' | 'added' | 'changed';
+
+export interface DiffRow {
+  type: DiffRowType;
+  left: string | null;
+  right: string | null;
+}
+
+// Oldest revisions are dropped beyond this many per command
+export const MAX_REVISIONS = 50;
+
+const INLINE_IMAGE_PREFIX = 'inline:';
+
+/**
+ * URLs are kept as they are; uploaded (data URL) images become a marker
+ * with their size, which cannot be restored
+ */
+export function imageReference(image: string): string {
+  if (!image.startsWith('data:')) return image;
+  return `${INLINE_IMAGE_PREFIX}${Math.round(image.length / 1024)} KB`;
+}
+
+export function isInlineImageReference(image: string): boolean {
+  return image.startsWith(INLINE_IMAGE_PREFIX);
+}
+
+export function createRevision(cmd: Command, savedAt = new Date().toISOString()): CommandRevision {
+  return {
+    savedAt,
+    name: cmd.name,
+    command: cmd.command,
+    tags: cmd.tags || [],
+    category: cmd.category || null,
+    image: imageReference(cmd.image || '')
+  };
+}
+
+/**
+ * Appends the saved state of a command. Commands saved before revisions
+ * existed have no history yet, so their previous state is recorded first.
+ */
+export function appendRevision(revisions: CommandRevision[], previous: Command | undefined, saved: Command): CommandRevision[] {
+  const baseline = revisions.length === 0 && previous
+    ? [createRevision(previous, previous.updatedAt ?? previous.createdAt ?? new Date(0).toISOString())]
+    : [];
+  return [...revisions, ...baseline, createRevision(saved, saved.updatedAt)].slice(-MAX_REVISIONS);
+}
+
+/**
+ * Line diff for side-by-side display, based on the longest common
+ * subsequence. Adjacent removals and additions are paired as changes.
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+
+  // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    const length = Math.max(removed.length, added.length);
+    for (let k = 0; k < length; k++) {
+      const left = removed[k] ?? null;
+      const right = added[k] ?? null;
+      rows.push({ type: left !== null && right !== null ? 'changed' : left !== null ? 'removed' : 'added', left, right });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      rows.push({ type: 'same', left: a[i], right: b[j] });
+      i++;
+      j++;
+    } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      removed.push(a[i++]);
+    } else {
+      added.push(b[j++]);
+    }
+  }
+  flush();
+  return rows;
+}
@@ -0,0 +1,169 @@
+/**
+ * Command Search
+ * Ranked fuzzy matching over command names, tag names and category, and
+ * substring matching over code, with the matched character ranges needed to
+ * highlight results
+ */
+
+import type { Category, Command } from './types';
+
+export type MatchRange = [start: number, end: number];
+
+export interface FieldMatch {
+  score: number;
+  ranges: MatchRange[];
+}
+
+export interface CommandMatch {
+  score: number;
+  name: MatchRange[];
+  command: MatchRange[];
+  category: MatchRange[];
+  tags: Record<string, MatchRange[]>;
+}
+
+// Relative importance of each field when ranking
+const FIELD_WEIGHTS = {
+  name: 3,
+  tags: 2,
+  category: 1.5,
+  command: 1
+};
+
+const isWordStart = (text: string, index: number) =>
+  index === 0 || /[\s_\-.(,"'/]/.test(text[index - 1]);
+
+/**
+ * Matches a single term as a case-insensitive substring of text, scoring
+ * longer, word-start and exact matches higher. Returns null when no match.
+ */
+export function substringMatch(term: string, text: string): FieldMatch | null {
+  if (!term || !text) return null;
+  const needle = term.toLowerCase();
+  const haystack = text.toLowerCase();
+  const index = haystack.indexOf(needle);
+  if (index === -1) return null;
+  const exact = needle.length === haystack.length;
+  const score = 10 + needle.length * 2 + (isWordStart(haystack, index) ? 5 : 0) + (exact ? 10 : 0);
+  return { score, ranges: [[index, index + needle.length]] };
+}
+
+/**
+ * Matches a single term against text. Substring matches score highest;
+ * otherwise every character of the term must appear in order, with bonuses
+ * for consecutive characters and word starts. Returns null when no match.
+ */
+export function fuzzyMatch(term: string, text: string): FieldMatch | null {
+  const substring = substringMatch(term, text);
+  if (substring) return substring;
+  if (!term || !text) return null;
+  const needle = term.toLowerCase();
+  const haystack = text.toLowerCase();
+
+  const ranges: MatchRange[] = [];
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+  for (const char of needle) {
+    const index = haystack.indexOf(char, from);
+    if (index === -1) return null;
+    if (index === previous + 1) {
+      score += 3;
+      ranges[ranges.length - 1][1] = index + 1;
+    } else {
+      score += 1;
+      ranges.push([index, index + 1]);
+    }
+    if (isWordStart(haystack, index)) score += 2;
+    previous = index;
+    from = index + 1;
+  }
+
+  // Penalize matches scattered across long strings
+  score -= Math.min(ranges.length - 1, 5);
+  return score > 0 ? { score, ranges } : null;
+}
+
+const mergeRanges = (ranges: MatchRange[]): MatchRange[] => {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: MatchRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+  }
+  return merged;
+};
+
+/**
+ * Matches a whitespace-separated query against a command. Every term must
+ * match at least one field; the score is the sum of each term's best
+ * weighted field score.
+ */
+export function matchCommand(query: string, cmd: Command, categories: Category[]): CommandMatch | null {
+  const terms = query.trim().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return null;
+
+  const categoryName = categories.find(c => c.id === cmd.category)?.name ?? cmd.category ?? '';
+  const result: CommandMatch = { score: 0, name: [], command: [], category: [], tags: {} };
+
+  for (const term of terms) {
+    let best = 0;
+
+    const name = fuzzyMatch(term, cmd.name);
+    if (name) {
+      best = Math.max(best, name.score * FIELD_WEIGHTS.name);
+      result.name.push(...name.ranges);
+    }
+
+    // Long Lua bodies contain almost any short query as a subsequence, so
+    // code only matches as a substring
+    const command = substringMatch(term, cmd.command);
+    if (command) {
+      best = Math.max(best, command.score * FIELD_WEIGHTS.command);
+      result.command.push(...command.ranges);
+    }
+
+    const category = fuzzyMatch(term, categoryName);
+    if (category) {
+      best = Math.max(best, category.score * FIELD_WEIGHTS.category);
+      result.category.push(...category.ranges);
+    }
+
+    for (const tagName of cmd.tags || []) {
+      const tag = fuzzyMatch(term, tagName);
+      if (tag) {
+        best = Math.max(best, tag.score * FIELD_WEIGHTS.tags);
+        result.tags[tagName] = [...(result.tags[tagName] || []), ...tag.ranges];
+      }
+    }
+
+    if (best === 0) return null;
+    result.score += best;
+  }
+
+  result.name = mergeRanges(result.name);
+  result.command = mergeRanges(result.command);
+  result.category = mergeRanges(result.category);
+  for (const tagName of Object.keys(result.tags)) {
+    result.tags[tagName] = mergeRanges(result.tags[tagName]);
+  }
+  return result;
+}
+
+/**
+ * Filters and ranks commands by query, best match first
+ */
+export function searchCommands(
+  commands: Command[],
+  query: string,
+  categories: Category[]
+): { command: Command; match: CommandMatch }[] {
+  return commands
+    .map(command => ({ command, match: matchCommand(query, command, categories) }))
+    .filter((result): result is { command: Command; match: CommandMatch } => result.match !== null)
+    .sort((a, b) => b.match.score - a.match.score);
+}
@@ -0,0 +1,97 @@
+/**
+ * Command Templates
+ * Parses `${name}`, `${name:type}` and `${name:type=default}` placeholders
+ * inside command code and renders the final console string from
+ * user-supplied values. `$` is not a Lua token, so table constructors such as
+ * `{inst}` are never mistaken for placeholders. A literal `${` can be
+ * written as `\${`.
+ */
+
+export type PlaceholderType = 'string' | 'number';
+
+export interface TemplatePlaceholder {
+  name: string;
+  type: PlaceholderType;
+  defaultValue: string | null;
+}
+
+const PLACEHOLDER_PATTERN = /\\\$\{|\$\{([A-Za-z_][A-Za-z0-9_]*)(?::(string|number))?(?:=([^{}]*))?\}/g;
+
+/**
+ * Lists the distinct placeholders of a command, in order of first appearance.
+ * When a name appears more than once, the first definition wins.
+ */
+export function parseTemplate(command: string): TemplatePlaceholder[] {
+  const placeholders: TemplatePlaceholder[] = [];
+  for (const match of command.matchAll(PLACEHOLDER_PATTERN)) {
+    const [, name, type, defaultValue] = match;
+    if (!name || placeholders.some(p => p.name === name)) continue;
+    placeholders.push({
+      name,
+      type: (type as PlaceholderType) || 'string',
+      defaultValue: defaultValue ?? null
+    });
+  }
+  return placeholders;
+}
+
+export function isTemplate(command: string): boolean {
+  return parseTemplate(command).length > 0;
+}
+
+/**
+ * Initial form values: each placeholder's default, or empty
+ */
+export function getTemplateDefaults(placeholders: TemplatePlaceholder[]): Record<string, string> {
+  return Object.fromEntries(placeholders.map(p => [p.name, p.defaultValue ?? '']));
+}
+
+/**
+ * Checks values against their placeholder types
+ * Returns an error message per invalid placeholder name
+ */
+export function validateTemplateValues(
+  placeholders: TemplatePlaceholder[],
+  values: Record<string, string>
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  for (const placeholder of placeholders) {
+    const value = (values[placeholder.name] ?? '').trim();
+    if (!value) {
+      errors[placeholder.name] = 'Value is required';
+    } else if (placeholder.type === 'number' && !Number.isFinite(Number(value))) {
+      errors[placeholder.name] = 'Must be a number';
+    }
+  }
+  return errors;
+}
+
+/**
+ * Substitutes placeholder values into the command and unescapes literal `${`
+ */
+export function renderTemplate(command: string, values: Record<string, string>): string {
+  return command.replace(PLACEHOLDER_PATTERN, (match, name: string | undefined) => {
+    if (!name) return match.slice(1);
+    return (values[name] ?? '').trim();
+  });
+}
+
+/**
+ * Console code of a command copied without filling in placeholders: only
+ * the escapes are resolved
+ */
+export function unescapeTemplate(command: string): string {
+  return command.replace(/\\\$\{/g, '${');
+}
+
+/**
+ * Like renderTemplate, but pads each substitution with spaces to the length
+ * of the text it replaces, so columns in the result match the raw command.
+ * Used to parse templates with stand-in values that fit their placeholder.
+ */
+export function renderTemplateInPlace(command: string, values: Record<string, string>): string {
+  return command.replace(PLACEHOLDER_PATTERN, (match, name: string | undefined) => {
+    const value = name ? (values[name] ?? '').trim() : match.slice(1);
+    return value.padStart(value.length + (name ? 0 : 1)).padEnd(match.length);
+  });
+}
@@ -1,64 +1,135 @@
-import React, { useState, useEffect } from 'react';
-import { Plus, Edit2, Trash2, Save, X, Tag, FolderOpen, Star, Shield, Eye } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Plus, Edit2, Trash2, Save, X, Tag, FolderOpen, Star, Shield, Eye, Download, Upload, AlertTriangle, ChevronUp, ChevronDown, Search, Bookmark, Layers, Undo2, RotateCcw, History, KeyRound, Share2, Images, RefreshCw, Pin, Database } from 'lucide-react';
+import { buildLibraryExport, parseLibraryDocument, mergeLibraryImport, validateCommand, LibraryImportError, ImportReport } from './library-transfer';
+import { parseTemplate, getTemplateDefaults, validateTemplateValues, renderTemplate, unescapeTemplate, TemplatePlaceholder } from './command-templates';
+import { validateLua, validateCommands, LuaDiagnostic } from './lua-validator';
+import { findPrefab, findUnknownPrefabs, findUnknownPrefabsInCommands, getPrefabCompletion, searchPrefabs, suggestPrefab, PrefabCompletion } from './prefab-catalog';
+import { fuzzyMatch, searchCommands, MatchRange } from './command-search';
+import {
+  applyFilter,
+  isFilterEmpty,
+  renameFilterTag,
+  toggleFilterCategory,
+  toggleFilterTag,
+  toggleFilterUncategorized,
+  toggleFilterUntagged,
+  CommandFilter,
+  EMPTY_FILTER
+} from './command-filter';
+import { cascadeCategoryDelete, cascadeTagChange, isViewActive, nextViewId, normalizeView, SavedView } from './saved-views';
+import { buildMacroCode, findMacrosUsingCommand, getMissingCommandIds, nextMacroId, resolveMacro } from './command-macros';
+import { discardEntriesTouching, recordChange, pushHistory, takeRedo, takeUndo, writesFor, EMPTY_HISTORY, StorageChange, UndoHistory } from './undo-history';
+import {
+  createCommandTrashEntry,
+  createTagTrashEntry,
+  findExpiredEntries,
+  maxCommandId,
+  planCommandRestore,
+  planTagRestore,
+  timeUntilPurge,
+  TrashEntry,
+  DEFAULT_RETENTION_DAYS,
+  RETENTION_OPTIONS
+} from './trash-bin';
+import { appendRevision, diffLines, isInlineImageReference, CommandRevision } from './command-revisions';
+import { ensureMigrated, imageCache } from './library-storage';
+import {
+  getServerToken,
+  onSyncEvent,
+  pullFromServer,
+  setServerToken,
+  startSyncRetries,
+  syncedStorage as storage
+} from './library-sync';
+import { isSameRecord, watchOtherTabs, RemoteChange } from './tab-sync';
+import { registerServiceWorker } from './service-worker';
+import { commandForImageKey, createWikiClient, imageLookupKey, resolveWikiImage, WikiClient } from './wiki-images';
+import { createFetchQueue, isAbortError, rateLimitFetch } from './image-fetch-queue';
+import { describeImageCache, formatAge, ImageCacheRow } from './image-cache-report';
+import { storageAdapter } from './storage-adapter';
+import {
+  estimateRecordGrowth,
+  measureImageStore,
+  measureStorageBreakdown,
+  ImageStoreUsage,
+  StorageBreakdown,
+  STORAGE_CATEGORY_LABELS
+} from './storage-usage';
+import { decodeShareFragment, encodeShareFragment, isShareFragment, SHARE_URL_WARNING_LENGTH } from './share-links';
+import { embedStoredImages, extractInlineImages, isImageRef, pruneImages, putImage, resolveImageUrl } from './image-store';
+import {
+  centeredSquareCrop,
+  clampCrop,
+  fitDimensions,
+  formatBytes,
+  isAnimatedImage,
+  processImage,
+  readImageSize,
+  CropRect,
+  DEFAULT_MAX_DIMENSION,
+  MAX_DIMENSION_OPTIONS,
+  MAX_SOURCE_BYTES,
+  MAX_STORED_BYTES
+} from './image-processing';
+import {
+  createPassphraseRecord,
+  validateNewPassphrase,
+  verifyPassphrase,
+  PassphraseRecord,
+  ADMIN_IDLE_TIMEOUT_MS,
+  ADMIN_PASSPHRASE_KEY,
+  VIEWER_ONLY
+} from './admin-access';
+import type { Category, Command, Macro, Tag as TagRecord } from './types';
 
-// localStorage-based storage utility
-const STORAGE_KEY = 'dst-command-manager-data';
 const VIEWER_FAVORITES_KEY = 'dst-viewer-favorites';
+const VIEWER_VIEWS_KEY = 'dst-viewer-views';
+const IMAGE_CACHE_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+// Failed lookups are remembered for a day, so a wiki page added later still turns up
+const IMAGE_MISS_MAX_AGE = 24 * 60 * 60 * 1000;
+const IMAGE_RETRY_INTERVAL = 5 * 60 * 1000;
 
-const storage = {
-  _getData: () => {
-    try {
-      const data = localStorage.getItem(STORAGE_KEY);
-      return data ? JSON.parse(data) : { commands: {}, tags: {} };
-    } catch (e) {
-      console.error('Error reading from localStorage:', e);
-      return { commands: {}, tags: {} };
-    }
-  },
+// Why a card shows no image
+type ImageStatus = 'not-found' | 'network-error' | 'cached-miss' | 'broken';
 
-  _saveData: (data) => {
-    try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
-      return true;
-    } catch (e) {
-      console.error('Error writing to localStorage:', e);
-      return false;
-    }
-  },
+const IMAGE_STATUS_LABELS: Record<ImageStatus, string> = {
+  'not-found': 'Not found on the wiki',
+  'network-error': 'Network error',
+  'cached-miss': 'Not found (cached miss)',
+  'broken': 'Image unavailable'
+};
 
-  get: async (key) => {
-    const data = storage._getData();
-    const [prefix, id] = key.split(':');
-    const store = prefix === 'dsttag' ? data.tags : data.commands;
-    return store[id] ? { value: store[id] } : null;
-  },
+const STORAGE_CATEGORY_COLORS: Record<keyof StorageBreakdown, string> = {
+  commands: 'bg-blue-500',
+  embeddedImages: 'bg-purple-500',
+  imageCache: 'bg-amber-500',
+  favorites: 'bg-yellow-400',
+  other: 'bg-gray-400'
+};
 
-  set: async (key, value) => {
-    const data = storage._getData();
-    const [prefix, id] = key.split(':');
-    const store = prefix === 'dsttag' ? 'tags' : 'commands';
-    data[store][id] = value;
-    return storage._saveData(data);
-  },
+const storageMeterColor = (percentage: number) =>
+  percentage >= 90 ? 'bg-red-500' : percentage >= 70 ? 'bg-amber-400' : 'bg-green-400';
 
-  delete: async (key) => {
-    const data = storage._getData();
-    const [prefix, id] = key.split(':');
-    const store = prefix === 'dsttag' ? 'tags' : 'commands';
-    if (data[store][id]) {
-      delete data[store][id];
-      return storage._saveData(data);
-    }
-    return true;
-  },
+// Share of the origin quota in use, or null when the browser does not report it
+const originPercentage = (usage: ImageStoreUsage | null) =>
+  usage?.originUsage != null && usage.originQuota ? Math.round((usage.originUsage / usage.originQuota) * 100) : null;
 
-  list: async (prefix) => {
-    const data = storage._getData();
-    const store = prefix === 'dsttag:' ? data.tags : data.commands;
-    const keys = Object.keys(store).map(id => `${prefix}${id}`);
-    return { keys };
-  }
-};
+const TRASH_RETENTION_KEY = 'dstsetting:trashRetentionDays';
+const IMAGE_MAX_DIMENSION_KEY = 'dstsetting:imageMaxDimension';
+
+// An upload being prepared in the editor, before it is stored
+interface ImageDraft {
+  file: File;
+  originalUrl: string;
+  width: number;
+  height: number;
+  animated: boolean;
+  keepAnimation: boolean;
+  crop: CropRect | null;
+  result: { blob: Blob; url: string } | null;
+  processing: boolean;
+  error: string | null;
+}
 
 // Viewer favorites stored separately in browser localStorage
 const viewerFavoritesStorage = {
@@ -94,84 +165,82 @@ const viewerFavoritesStorage = {
   }
 };
 
-// MediaWiki API utility for fetching DST images
-const IMAGE_CACHE = {};
-
-const fetchDSTImage = async (itemName) => {
-  if (!itemName || itemName.trim() === '') return null;
-
-  // Check cache first
-  const cacheKey = itemName.toLowerCase().trim();
-  if (IMAGE_CACHE[cacheKey]) {
-    return IMAGE_CACHE[cacheKey];
-  }
+// Viewer's private saved views, kept in browser localStorage like their favorites
+const viewerViewsStorage = {
+  get: (): SavedView[] => {
+    try {
+      const data = localStorage.getItem(VIEWER_VIEWS_KEY);
+      return data ? JSON.parse(data).map(normalizeView) : [];
+    } catch (e) {
+      console.error('Error reading viewer views:', e);
+      return [];
+    }
+  },
 
-  // Check localStorage cache
-  try {
-    const cached = localStorage.getItem(`dst_img_${cacheKey}`);
-    if (cached) {
-      const { url, timestamp } = JSON.parse(cached);
-      // Cache for 7 days
-      if (Date.now() - timestamp < 7 * 24 * 60 * 60 * 1000) {
-        IMAGE_CACHE[cacheKey] = url;
-        return url;
-      }
+  set: (views: SavedView[]) => {
+    try {
+      localStorage.setItem(VIEWER_VIEWS_KEY, JSON.stringify(views));
+      return true;
+    } catch (e) {
+      console.error('Error saving viewer views:', e);
+      return false;
     }
-  } catch (e) {
-    console.error('Cache read error:', e);
   }
+};
 
-  // Convert item name to potential filenames
-  const formatFilename = (name) => {
-    // Common DST wiki filename patterns
-    const cleaned = name.trim();
-    const patterns = [
-      `${cleaned}_Build.png`,
-      `${cleaned}.png`,
-      `${cleaned}_Portrait.png`,
-      `${cleaned}_Icon.png`
-    ];
-    return patterns;
-  };
+// Resolved wiki image URLs by lowercase command name
+const IMAGE_CACHE: Record<string, string> = {};
 
-  const filenames = formatFilename(itemName);
+// NEXT_PUBLIC_WIKI_API_URL points lookups at another wiki or a fake server;
+// requests are spaced out so a large library does not trip the wiki's rate limit
+const defaultWikiClient = createWikiClient({ fetch: rateLimitFetch(250) });
 
-  // Try each filename pattern
-  for (const filename of filenames) {
-    try {
-      const encodedFilename = encodeURIComponent(`File:${filename}`);
-      const apiUrl = `https://dontstarve.fandom.com/api.php?action=query&titles=${encodedFilename}&prop=imageinfo&iiprop=url&format=json&origin=*`;
+// Shared by every card, so each cache key is looked up once at a time
+const imageQueue = createFetchQueue<ImageLookup>({ concurrency: 3 });
+// Queue owner for refreshes started from the image cache panel; cards use their command ids
+const IMAGE_CACHE_PANEL_OWNER = -1;
 
-      const response = await fetch(apiUrl);
-      const data = await response.json();
+interface ImageLookup {
+  url: string | null;
+  // Whether the result was remembered from an earlier lookup
+  fromCache: boolean;
+}
 
-      const pages = data.query?.pages;
-      if (pages) {
-        const page = Object.values(pages)[0];
-        if (page.imageinfo && page.imageinfo[0]?.url) {
-          const imageUrl = page.imageinfo[0].url;
+// Throws on network and wiki errors so the queue can back off and retry.
+// `refresh` skips the caches; the old entry stays until the wiki answers.
+const fetchDSTImage = async (
+  cmd: { name: string; command: string },
+  { signal, refresh = false }: { signal?: AbortSignal; refresh?: boolean } = {},
+  client: WikiClient = defaultWikiClient
+): Promise<ImageLookup> => {
+  if (!cmd.name || cmd.name.trim() === '') return { url: null, fromCache: false };
 
-          // Cache the result
-          IMAGE_CACHE[cacheKey] = imageUrl;
-          try {
-            localStorage.setItem(`dst_img_${cacheKey}`, JSON.stringify({
-              url: imageUrl,
-              timestamp: Date.now()
-            }));
-          } catch (e) {
-            console.error('Cache write error:', e);
-          }
+  // Check cache first
+  const cacheKey = imageLookupKey(cmd);
+  if (IMAGE_CACHE[cacheKey] && !refresh) {
+    return { url: IMAGE_CACHE[cacheKey], fromCache: true };
+  }
 
-          return imageUrl;
-        }
-      }
-    } catch (error) {
-      console.error(`Error fetching image for ${filename}:`, error);
-    }
+  // Check localStorage cache (7 days, or a day for misses)
+  const cached = refresh ? null : imageCache.get(cacheKey, IMAGE_CACHE_MAX_AGE);
+  if (cached) {
+    IMAGE_CACHE[cacheKey] = cached;
+    return { url: cached, fromCache: true };
+  }
+  if (!refresh && imageCache.getMiss(cacheKey, IMAGE_MISS_MAX_AGE)) {
+    return { url: null, fromCache: true };
   }
 
-  // Return fallback
-  return null;
+  const resolved = await resolveWikiImage(cmd, client, signal);
+  if (resolved) {
+    IMAGE_CACHE[cacheKey] = resolved.url;
+    imageCache.set(cacheKey, resolved.url, `${resolved.strategy}: ${resolved.title}`);
+    return { url: resolved.url, fromCache: false };
+  }
+
+  delete IMAGE_CACHE[cacheKey];
+  imageCache.setMiss(cacheKey, 'not-found');
+  return { url: null, fromCache: false };
 };
 
 const DEFAULT_COMMANDS = [
@@ -180,81 +249,402 @@ const DEFAULT_COMMANDS = [
   { id: 3, name: "Give Gold", command: 'c_give("goldnugget", 40)', image: "https://static.wikia.nocookie.net/dont-starve-game/images/9/92/Gold_Nugget.png/revision/latest?cb=20160723185614", tags: ["Items"], favorite: true, category: "give" }
 ];
 
-const CATEGORIES = [
-  { id: "give", name: "Give", color: "#059669" },
-  { id: "spawn", name: "Spawn", color: "#7c3aed" }
+const DEFAULT_CATEGORIES = [
+  { id: "give", name: "Give", color: "#059669", order: 0 },
+  { id: "spawn", name: "Spawn", color: "#7c3aed", order: 1 }
 ];
 
+// Seeds categories for libraries saved before categories were persisted,
+// keeping any category ids commands already reference
+const migrateCategories = (existingCommands: Command[]): Category[] => {
+  const migrated = [...DEFAULT_CATEGORIES];
+  for (const cmd of existingCommands) {
+    if (cmd.category && !migrated.some(c => c.id === cmd.category)) {
+      migrated.push({
+        id: cmd.category,
+        name: cmd.category.charAt(0).toUpperCase() + cmd.category.slice(1),
+        color: '#6b7280',
+        order: migrated.length
+      });
+    }
+  }
+  return migrated;
+};
+
 const DEFAULT_TAGS = [
   { id: 1, name: "Admin", color: "#ef4444" },
   { id: 2, name: "Spawning", color: "#8b5cf6" },
   { id: 3, name: "Items", color: "#10b981" }
 ];
 
+// Wraps the matched ranges of a search result in <mark> elements
+const Highlight = ({ text, ranges }: { text: string; ranges?: MatchRange[] }) => {
+  if (!ranges || ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  for (const [start, end] of ranges) {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(
+      <mark key={start} className="bg-yellow-200 text-inherit rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  }
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return <>{parts}</>;
+};
+
+// Image that may be a stored upload reference; resolved to an object URL once mounted
+const StoredImage = ({ image, alt, onMissing, ...props }: { image: string; onMissing?: () => void } & React.ImgHTMLAttributes<HTMLImageElement>) => {
+  const [resolved, setResolved] = useState<{ image: string; url: string | null } | null>(null);
+  const onMissingRef = useRef(onMissing);
+
+  useEffect(() => {
+    onMissingRef.current = onMissing;
+  });
+
+  useEffect(() => {
+    let active = true;
+    resolveImageUrl(image).then(url => {
+      if (!active) return;
+      setResolved({ image, url });
+      if (!url) onMissingRef.current?.();
+    });
+    return () => {
+      active = false;
+    };
+  }, [image]);
+
+  const url = isImageRef(image) ? (resolved?.image === image ? resolved.url : null) : image;
+  return url ? <img src={url} alt={alt} {...props} /> : null;
+};
+
 export default function DSTCommandManager() {
-  const [commands, setCommands] = useState([]);
-  const [tags, setTags] = useState([]);
+  const [commands, setCommands] = useState<Command[]>([]);
+  const [tags, setTags] = useState<TagRecord[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(true);
-  const [editingId, setEditingId] = useState(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
   const [editName, setEditName] = useState('');
   const [editCommand, setEditCommand] = useState('');
   const [editImage, setEditImage] = useState('');
-  const [editTags, setEditTags] = useState([]);
-  const [editCategory, setEditCategory] = useState(null);
+  const [editTags, setEditTags] = useState<string[]>([]);
+  const [editCategory, setEditCategory] = useState<string | null>(null);
+  // Stored record the editor started from, to detect saves from other tabs
+  const [editBase, setEditBase] = useState<string | null>(null);
+  const [editConflict, setEditConflict] = useState<{ remote: Command | null } | null>(null);
+  const [imageDraft, setImageDraft] = useState<ImageDraft | null>(null);
+  const [imageMaxDimension, setImageMaxDimension] = useState(DEFAULT_MAX_DIMENSION);
+  const imageJobRef = useRef(0);
   const [copiedId, setCopiedId] = useState(null);
-  const [imageErrors, setImageErrors] = useState({});
-  const [activeTag, setActiveTag] = useState('all');
+  const [macros, setMacros] = useState<Macro[]>([]);
+  const [macroDraft, setMacroDraft] = useState<{ id: number | null; name: string; commandIds: number[] } | null>(null);
+  const [copiedMacroId, setCopiedMacroId] = useState<number | null>(null);
+  const [trash, setTrash] = useState<TrashEntry[]>([]);
+  const [trashRetentionDays, setTrashRetentionDays] = useState(DEFAULT_RETENTION_DAYS);
+  const [showTrash, setShowTrash] = useState(false);
+  const [revisions, setRevisions] = useState<CommandRevision[]>([]);
+  const [showRevisions, setShowRevisions] = useState(false);
+  const [selectedRevision, setSelectedRevision] = useState<number | null>(null);
+  const [history, setHistory] = useState<UndoHistory>(EMPTY_HISTORY);
+  const [toast, setToast] = useState<{ message: string; undoable: boolean } | null>(null);
+  const toastTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [imageErrors, setImageErrors] = useState<Record<number, boolean>>({});
+  const [filter, setFilter] = useState<CommandFilter>(EMPTY_FILTER);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [viewerViews, setViewerViews] = useState<SavedView[]>([]);
+  const [showViewManager, setShowViewManager] = useState(false);
+  const [viewDraft, setViewDraft] = useState<{ scope: 'shared' | 'private'; id: number | null; name: string } | null>(null);
+  const [viewDeleteScope, setViewDeleteScope] = useState<'shared' | 'private'>('shared');
   const [showTagManager, setShowTagManager] = useState(false);
   const [showCommandEditor, setShowCommandEditor] = useState(false);
   const [editingTagId, setEditingTagId] = useState(null);
   const [editTagName, setEditTagName] = useState('');
   const [editTagColor, setEditTagColor] = useState('#3b82f6');
+  const [showCategoryManager, setShowCategoryManager] = useState(false);
+  const [editingCategoryId, setEditingCategoryId] = useState<string | null>(null);
+  const [editCategoryName, setEditCategoryName] = useState('');
+  const [editCategoryColor, setEditCategoryColor] = useState('#6b7280');
+  const [categoryReassignTo, setCategoryReassignTo] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
   const [saveSuccess, setSaveSuccess] = useState(false);
-  const [autoFetchedImages, setAutoFetchedImages] = useState({});
-  const [fetchingImages, setFetchingImages] = useState({});
+  const [saveDespiteSyntaxError, setSaveDespiteSyntaxError] = useState(false);
+  const [syntaxErrors, setSyntaxErrors] = useState<Record<number, LuaDiagnostic>>({});
+  const [unknownPrefabs, setUnknownPrefabs] = useState<Record<number, string[]>>({});
+  const [prefabCompletion, setPrefabCompletion] = useState<PrefabCompletion | null>(null);
+  const [prefabCompletionIndex, setPrefabCompletionIndex] = useState(0);
+  const commandInputRef = useRef<HTMLTextAreaElement>(null);
+  const [autoFetchedImages, setAutoFetchedImages] = useState<Record<number, string>>({});
+  const [fetchingImages, setFetchingImages] = useState<Record<number, boolean>>({});
+  const [imageStatus, setImageStatus] = useState<Record<number, ImageStatus>>({});
+  // Image lookups made for each command, by id; kept after they finish so
+  // a command is only looked up again when renamed or retried
+  const imageRequestsRef = useRef(new Map<number, { key: string }>());
+  const nextImageRetryRef = useRef(0);
+  const [showImageCache, setShowImageCache] = useState(false);
+  const [imageCacheRows, setImageCacheRows] = useState<ImageCacheRow[]>([]);
+  const [imageCacheProgress, setImageCacheProgress] = useState<{ done: number; total: number } | null>(null);
+  const [refreshingImageKey, setRefreshingImageKey] = useState<string | null>(null);
+  const [storageUsage, setStorageUsage] = useState<{
+    used: number;
+    available: number;
+    percentage: number;
+    breakdown: StorageBreakdown;
+  } | null>(null);
+  const [imageStoreUsage, setImageStoreUsage] = useState<ImageStoreUsage | null>(null);
+  // Open storage panel, with the save it was opened for
+  const [storagePanel, setStoragePanel] = useState<{ warning: string | null } | null>(null);
+  const [serverTokenPrompt, setServerTokenPrompt] = useState<{ message: string; token: string } | null>(null);
+  const [storageBusy, setStorageBusy] = useState(false);
+  const cardObserverRef = useRef<IntersectionObserver | null>(null);
   const [isAdminMode, setIsAdminMode] = useState(false);
+  const [adminAuth, setAdminAuth] = useState<{
+    mode: 'create' | 'unlock' | 'change';
+    current: string;
+    passphrase: string;
+    confirmation: string;
+    error: string | null;
+    busy: boolean;
+  } | null>(null);
+  const lastActivityRef = useRef(0);
   const [viewerFavorites, setViewerFavorites] = useState({});
-  const [deleteConfirm, setDeleteConfirm] = useState({ show: false, type: null, item: null, deleting: false, error: null });
+  const [deleteConfirm, setDeleteConfirm] = useState<{
+    show: boolean;
+    type: 'command' | 'tag' | 'category' | 'view' | 'macro' | 'trash' | null;
+    item: Command | TagRecord | Category | SavedView | Macro | TrashEntry | null;
+    deleting: boolean;
+    error: string | null;
+  }>({ show: false, type: null, item: null, deleting: false, error: null });
+  const [importReport, setImportReport] = useState<({ fileName: string; error: string } | (ImportReport & { fileName: string; error: null })) | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [shareDraft, setShareDraft] = useState<{ commandIds: number[]; selected: number[]; url: string | null } | null>(null);
+  const [sharePreview, setSharePreview] = useState<{ error: string; doc: null } | { error: null; doc: Record<string, unknown> } | null>(null);
+  const [templateFill, setTemplateFill] = useState<{
+    name: string;
+    code: string;
+    copy: (text: string) => Promise<void>;
+    placeholders: TemplatePlaceholder[];
+    values: Record<string, string>;
+    errors: Record<string, string>;
+  } | null>(null);
 
   useEffect(() => {
+    registerServiceWorker();
     loadData();
-    // Load viewer favorites from browser localStorage
+    // Load viewer favorites and private views from browser localStorage
     setViewerFavorites(viewerFavoritesStorage.get());
+    setViewerViews(viewerViewsStorage.get());
   }, []);
 
-  // Auto-fetch images for commands that don't have manual images
-  useEffect(() => {
-    const fetchImagesForCommands = async () => {
-      for (const cmd of commands) {
-        // Skip if already has manual image or already fetched
-        if (cmd.image || autoFetchedImages[cmd.id] || fetchingImages[cmd.id]) {
-          continue;
-        }
+  // Server storage: retry queued writes, report sync problems as toasts
+  useEffect(() => startSyncRetries(), []);
+
+  useEffect(() => onSyncEvent(event => {
+    if (event.type === 'offline') {
+      showToast('Server unreachable. Changes are kept in this browser and sent when it is back.', false);
+    } else if (event.type === 'online' && event.synced > 0) {
+      showToast(`Back online: ${event.synced} change${event.synced === 1 ? '' : 's'} sent to the server`, false);
+    } else if (event.type === 'rejected') {
+      showToast(event.message, false);
+    } else if (event.type === 'unauthorized') {
+      setServerTokenPrompt({ message: event.message, token: getServerToken() });
+    }
+  }));
+
+  // Queued writes are sent by the reload, which also seeds an empty server
+  const handleServerTokenSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!serverTokenPrompt) return;
+    setServerToken(serverTokenPrompt.token.trim());
+    setServerTokenPrompt(null);
+    loadData();
+  };
+
+  const clearImageState = (id: number) => {
+    const without = <T,>(prev: Record<number, T>) => {
+      const updated = { ...prev };
+      delete updated[id];
+      return updated;
+    };
+    setFetchingImages(without);
+    setAutoFetchedImages(without);
+    setImageStatus(without);
+  };
 
-        setFetchingImages(prev => ({ ...prev, [cmd.id]: true }));
+  // Shows a lookup made outside the queue, e.g. from the image cache panel
+  const showImageLookup = (id: number, lookup: ImageLookup) => {
+    const without = <T,>(prev: Record<number, T>) => {
+      const updated = { ...prev };
+      delete updated[id];
+      return updated;
+    };
+    const { url } = lookup;
+    if (url) {
+      setAutoFetchedImages(prev => ({ ...prev, [id]: url }));
+      setImageStatus(without);
+      setImageErrors(without);
+    } else {
+      setAutoFetchedImages(without);
+      setImageStatus(prev => ({ ...prev, [id]: lookup.fromCache ? 'cached-miss' : 'not-found' }));
+    }
+  };
 
-        const imageUrl = await fetchDSTImage(cmd.name);
+  const queueImageLookup = (cmd: Command) => {
+    const requests = imageRequestsRef.current;
+    const request = { key: imageLookupKey(cmd) };
+    requests.set(cmd.id, request);
+    setFetchingImages(prev => ({ ...prev, [cmd.id]: true }));
+    setImageStatus(prev => {
+      const updated = { ...prev };
+      delete updated[cmd.id];
+      return updated;
+    });
 
+    // A newer request for the command may have taken over by the time this settles
+    imageQueue.request(request.key, cmd.id, signal => fetchDSTImage(cmd, { signal }))
+      .then(lookup => {
+        if (requests.get(cmd.id) !== request) return;
+        const { url } = lookup;
+        if (url) {
+          setAutoFetchedImages(prev => ({ ...prev, [cmd.id]: url }));
+        } else {
+          setImageStatus(prev => ({ ...prev, [cmd.id]: lookup.fromCache ? 'cached-miss' : 'not-found' }));
+        }
+      })
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.error(`Error fetching image for ${cmd.name}:`, error);
+        if (requests.get(cmd.id) === request) {
+          setImageStatus(prev => ({ ...prev, [cmd.id]: 'network-error' }));
+        }
+      })
+      .finally(() => {
+        if (requests.get(cmd.id) !== request) return;
         setFetchingImages(prev => {
           const updated = { ...prev };
           delete updated[cmd.id];
           return updated;
         });
+      });
+  };
 
-        if (imageUrl) {
-          setAutoFetchedImages(prev => ({ ...prev, [cmd.id]: imageUrl }));
-        }
+  // Looks the image up again now, bypassing remembered misses and broken URLs
+  const retryImageLookup = (cmd: Command) => {
+    setImageErrors(prev => {
+      const newErrors = { ...prev };
+      delete newErrors[cmd.id];
+      return newErrors;
+    });
+    // Manual images just get another chance to load
+    if (cmd.image) return;
+    const cacheKey = imageLookupKey(cmd);
+    delete IMAGE_CACHE[cacheKey];
+    imageCache.remove(cacheKey);
+    imageQueue.release(cmd.id);
+    clearImageState(cmd.id);
+    queueImageLookup(cmd);
+  };
+
+  // An auto-fetched image that will not load is remembered as a miss
+  const handleAutoImageError = (cmd: Command) => {
+    const cacheKey = imageLookupKey(cmd);
+    delete IMAGE_CACHE[cacheKey];
+    imageCache.setMiss(cacheKey, 'broken', autoFetchedImages[cmd.id]);
+    setImageStatus(prev => ({ ...prev, [cmd.id]: 'broken' }));
+  };
+
+  // Auto-fetch images for commands that don't have manual images
+  useEffect(() => {
+    const requests = imageRequestsRef.current;
+    const wanted = new Map<number, Command>(commands.filter(cmd => !cmd.image && cmd.name?.trim()).map(cmd => [cmd.id, cmd]));
+
+    // Deleted commands, ones renamed or re-coded, and ones given an image stop waiting
+    for (const [id, request] of [...requests]) {
+      const cmd = wanted.get(id);
+      if (!cmd || imageLookupKey(cmd) !== request.key) {
+        requests.delete(id);
+        imageQueue.release(id);
+        clearImageState(id);
       }
-    };
+    }
 
-    if (commands.length > 0) {
-      fetchImagesForCommands();
+    for (const cmd of wanted.values()) {
+      // Skip if already looked up under this key
+      if (!requests.has(cmd.id)) {
+        queueImageLookup(cmd);
+      }
     }
   }, [commands]);
 
+  // Failed lookups are tried again every few minutes, once their cached miss
+  // has expired, and when the connection comes back. The retry time lives in
+  // a ref so re-renders do not push it back.
+  useEffect(() => {
+    const retryFailedLookups = () => {
+      nextImageRetryRef.current = Date.now() + IMAGE_RETRY_INTERVAL;
+      for (const cmd of commands) {
+        const status = imageStatus[cmd.id];
+        const missExpired = (status === 'not-found' || status === 'cached-miss' || status === 'broken')
+          && !cmd.image && !imageCache.getMiss(imageLookupKey(cmd), IMAGE_MISS_MAX_AGE);
+        if ((status === 'network-error' && !cmd.image) || missExpired) {
+          retryImageLookup(cmd);
+        }
+      }
+    };
+    if (!nextImageRetryRef.current) {
+      nextImageRetryRef.current = Date.now() + IMAGE_RETRY_INTERVAL;
+    }
+    const timer = setTimeout(retryFailedLookups, Math.max(0, nextImageRetryRef.current - Date.now()));
+    window.addEventListener('online', retryFailedLookups);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener('online', retryFailedLookups);
+    };
+  });
+
+  // Keep the admin storage meter current; measuring parses the whole
+  // library, so it waits until changes settle
+  useEffect(() => {
+    if (!isAdminMode) return;
+    const timer = setTimeout(loadStorageUsage, 500);
+    return () => clearTimeout(timer);
+  }, [isAdminMode, commands, trash]);
+
+  // Stop looking up images once the page is gone
+  useEffect(() => {
+    const requests = imageRequestsRef.current;
+    return () => {
+      imageQueue.releaseAll();
+      requests.clear();
+    };
+  }, []);
+
+  // Cards on screen get their images first
+  const observeCard = (card: HTMLDivElement | null) => {
+    if (!card || typeof IntersectionObserver === 'undefined') return;
+    cardObserverRef.current ??= new IntersectionObserver(entries => {
+      for (const entry of entries) {
+        imageQueue.setVisible(Number((entry.target as HTMLElement).dataset.commandId), entry.isIntersecting);
+      }
+    }, { rootMargin: '200px' });
+    const observer = cardObserverRef.current;
+    observer.observe(card);
+    return () => {
+      observer.unobserve(card);
+      imageQueue.setVisible(Number(card.dataset.commandId), false);
+    };
+  };
+
   const loadData = async () => {
     try {
+      // Upgrade data left by older storage layouts before reading anything
+      ensureMigrated();
+      // With server storage, the shared records are refreshed before reading
+      await pullFromServer();
+
       // Load tags
       const tagResult = await storage.list('dsttag:');
       if (!tagResult || !tagResult.keys || tagResult.keys.length === 0) {
@@ -276,6 +666,7 @@ export default function DSTCommandManager() {
       }
 
       // Load commands
+      let libraryCommands = DEFAULT_COMMANDS;
       const cmdResult = await storage.list('dst:');
       if (!cmdResult || !cmdResult.keys || cmdResult.keys.length === 0) {
         await initializeDefaults();
@@ -292,14 +683,160 @@ export default function DSTCommandManager() {
             console.error(`Error loading ${key}:`, err);
           }
         }
-        setCommands(loadedCommands.sort((a, b) => a.id - b.id));
+        // Move base64 images embedded by older versions into the image store;
+        // if IndexedDB is unavailable they simply stay embedded. Pulled
+        // server records have had theirs moved already (see library-sync)
+        let extracted: Command[] = [];
+        try {
+          extracted = await extractInlineImages(loadedCommands);
+          for (const cmd of extracted) {
+            await storage.set(`dst:${cmd.id}`, JSON.stringify(cmd));
+          }
+          if (extracted.length > 0) {
+            console.log(`Moved ${extracted.length} embedded image(s) to the image store`);
+          }
+        } catch (err) {
+          console.error('Error moving embedded images to the image store:', err);
+          extracted = [];
+        }
+        const sortedCommands = loadedCommands
+          .map(cmd => extracted.find(c => c.id === cmd.id) || cmd)
+          .sort((a, b) => a.id - b.id);
+        libraryCommands = sortedCommands;
+        setCommands(sortedCommands);
+
+        // Flag stored commands that would fail in the game console
+        const loadedSyntaxErrors = validateCommands(sortedCommands);
+        const errorCount = Object.keys(loadedSyntaxErrors).length;
+        if (errorCount > 0) {
+          console.warn(`${errorCount} command(s) have Lua syntax errors`);
+        }
+        setSyntaxErrors(loadedSyntaxErrors);
+        setUnknownPrefabs(findUnknownPrefabsInCommands(sortedCommands));
+      }
+
+      // Load categories
+      const catResult = await storage.list('dstcat:');
+      if (!catResult || !catResult.keys || catResult.keys.length === 0) {
+        const migrated = migrateCategories(libraryCommands);
+        await initializeDefaultCategories(migrated);
+        setCategories(migrated);
+      } else {
+        const loadedCategories = [];
+        for (const key of catResult.keys) {
+          try {
+            const data = await storage.get(key);
+            if (data && data.value) {
+              loadedCategories.push(JSON.parse(data.value));
+            }
+          } catch (err) {
+            console.error(`Error loading ${key}:`, err);
+          }
+        }
+        setCategories(loadedCategories.sort((a, b) => a.order - b.order));
+      }
+
+      // Load shared saved views
+      const viewResult = await storage.list('dstview:');
+      const loadedViews = [];
+      for (const key of viewResult?.keys || []) {
+        try {
+          const data = await storage.get(key);
+          if (data && data.value) {
+            loadedViews.push(normalizeView(JSON.parse(data.value)));
+          }
+        } catch (err) {
+          console.error(`Error loading ${key}:`, err);
+        }
+      }
+      setViews(loadedViews.sort((a, b) => a.id - b.id));
+
+      // Load macros
+      const macroResult = await storage.list('dstmacro:');
+      const loadedMacros = [];
+      for (const key of macroResult?.keys || []) {
+        try {
+          const data = await storage.get(key);
+          if (data && data.value) {
+            loadedMacros.push(JSON.parse(data.value));
+          }
+        } catch (err) {
+          console.error(`Error loading ${key}:`, err);
+        }
+      }
+      setMacros(loadedMacros.sort((a, b) => a.id - b.id));
+
+      // Load trash, auto-purging entries past the retention period
+      const retentionData = await storage.get(TRASH_RETENTION_KEY);
+      const retentionDays = retentionData ? JSON.parse(retentionData.value) : DEFAULT_RETENTION_DAYS;
+      setTrashRetentionDays(retentionDays);
+
+      const maxDimensionData = await storage.get(IMAGE_MAX_DIMENSION_KEY);
+      if (maxDimensionData) setImageMaxDimension(JSON.parse(maxDimensionData.value));
+
+      const trashResult = await storage.list('dsttrash:');
+      const loadedTrash = [];
+      for (const key of trashResult?.keys || []) {
+        try {
+          const data = await storage.get(key);
+          if (data && data.value) {
+            loadedTrash.push(JSON.parse(data.value));
+          }
+        } catch (err) {
+          console.error(`Error loading ${key}:`, err);
+        }
+      }
+      const expired = findExpiredEntries(loadedTrash, retentionDays);
+      for (const entry of expired) {
+        await purgeTrashStorage(entry);
+      }
+      if (expired.length > 0) {
+        console.log(`Auto-purged ${expired.length} trash item(s) older than ${retentionDays} days`);
+      }
+      const keptTrash = loadedTrash.filter(entry => !expired.includes(entry));
+      const trashedWithImages = [];
+      for (const entry of keptTrash) {
+        let extractedCommand: Command | undefined;
+        try {
+          [extractedCommand] = entry.type === 'command' ? await extractInlineImages([entry.record]) : [];
+        } catch (err) {
+          console.error(`Error moving the image of trash entry ${entry.id} to the image store:`, err);
+        }
+        if (extractedCommand) {
+          const updatedEntry = { ...entry, record: extractedCommand };
+          await storage.set(`dsttrash:${entry.id}`, JSON.stringify(updatedEntry));
+          trashedWithImages.push(updatedEntry);
+        } else {
+          trashedWithImages.push(entry);
+        }
+      }
+      setTrash(trashedWithImages);
+
+      // Drop stored images no command, trashed command or revision refers to
+      try {
+        const referencedImages = new Set<string>([
+          ...libraryCommands.map(cmd => cmd.image),
+          ...trashedWithImages.filter(entry => entry.type === 'command').map(entry => entry.record.image)
+        ]);
+        const revisionResult = await storage.list('dstrev:');
+        for (const key of revisionResult?.keys || []) {
+          const data = await storage.get(key);
+          for (const revision of data ? JSON.parse(data.value) : []) {
+            referencedImages.add(revision.image);
+          }
+        }
+        const prunedImages = await pruneImages(referencedImages);
+        if (prunedImages > 0) {
+          console.log(`Removed ${prunedImages} unused stored image(s)`);
+        }
+      } catch (err) {
+        console.error('Error removing unused stored images:', err);
       }
     } catch (error) {
+      // Defaults are only written to empty storage (above); a failed load
+      // must never overwrite the library with them
       console.error('Error loading data:', error);
-      await initializeDefaultTags();
-      await initializeDefaults();
-      setTags(DEFAULT_TAGS);
-      setCommands(DEFAULT_COMMANDS);
+      showToast('Failed to load the library. Reload the page to try again.', false);
     } finally {
       setLoading(false);
     }
@@ -325,14 +862,30 @@ export default function DSTCommandManager() {
     }
   };
 
+  const initializeDefaultCategories = async (initialCategories: Category[]) => {
+    for (const category of initialCategories) {
+      try {
+        await storage.set(`dstcat:${category.id}`, JSON.stringify(category));
+      } catch (err) {
+        console.error('Error saving default category:', err);
+      }
+    }
+  };
+
   const addNewCommand = () => {
-    const newId = commands.length > 0 ? Math.max(...commands.map(c => c.id)) + 1 : 1;
+    const newId = maxCommandId(commands, trash) + 1;
     setEditingId(newId);
     setEditName('');
     setEditCommand('');
     setEditImage('');
     setEditTags([]);
     setEditCategory(null);
+    setSaveDespiteSyntaxError(false);
+    setRevisions([]);
+    setShowRevisions(false);
+    setEditBase(null);
+    setEditConflict(null);
+    discardImageDraft();
     setShowCommandEditor(true);
   };
 
@@ -344,11 +897,20 @@ export default function DSTCommandManager() {
     setEditImage(cmd.image || '');
     setEditTags(cmd.tags || []);
     setEditCategory(cmd.category || null);
+    setSaveDespiteSyntaxError(false);
+    setShowRevisions(false);
+    setSelectedRevision(null);
+    loadRevisions(cmd.id);
+    setEditBase(JSON.stringify(cmd));
+    setEditConflict(null);
+    discardImageDraft();
     setShowCommandEditor(true);
   };
 
-  const handleImageUpload = (e) => {
-    const file = e.target.files[0];
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again after cancelling
+    e.target.value = '';
     if (file) {
       // Accept all image types including webp, gif, apng, etc.
       if (!file.type.startsWith('image/')) {
@@ -356,22 +918,100 @@ export default function DSTCommandManager() {
         return;
       }
 
-      // 3MB limit for animated images (GIF, WebP, APNG)
-      if (file.size > 3000000) {
-        alert('Image is too large. Please use an image smaller than 3MB.');
+      if (file.size > MAX_SOURCE_BYTES) {
+        alert(`Image is too large. Please use an image smaller than ${formatBytes(MAX_SOURCE_BYTES)}.`);
         return;
       }
 
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const base64 = event.target.result;
-        console.log('Image loaded, size:', Math.round(base64.length / 1024), 'KB', 'type:', file.type);
-        setEditImage(base64);
-      };
-      reader.onerror = () => {
+      try {
+        const [size, animated] = await Promise.all([readImageSize(file), isAnimatedImage(file)]);
+        discardImageDraft();
+        updateImageDraft({
+          file,
+          originalUrl: URL.createObjectURL(file),
+          ...size,
+          animated,
+          // Animation survives only if the original file is kept
+          keepAnimation: animated,
+          crop: null,
+          result: null,
+          processing: false,
+          error: null
+        });
+      } catch (error) {
+        console.error('Error reading image:', error);
         alert('Failed to read image file');
-      };
-      reader.readAsDataURL(file);
+      }
+    }
+  };
+
+  const discardImageDraft = () => {
+    imageJobRef.current++;
+    setImageDraft(prev => {
+      if (prev) {
+        URL.revokeObjectURL(prev.originalUrl);
+        if (prev.result) URL.revokeObjectURL(prev.result.url);
+      }
+      return null;
+    });
+  };
+
+  // Applies option changes and re-encodes; only the latest run's result is kept
+  const updateImageDraft = async (draft: ImageDraft, maxDimension = imageMaxDimension) => {
+    const job = ++imageJobRef.current;
+    if (draft.keepAnimation) {
+      setImageDraft({ ...draft, processing: false, error: null });
+      return;
+    }
+    setImageDraft({ ...draft, processing: true, error: null });
+    try {
+      const blob = await processImage(draft.file, { maxDimension, crop: draft.crop });
+      if (job !== imageJobRef.current) return;
+      setImageDraft(prev => {
+        if (!prev) return prev;
+        if (prev.result) URL.revokeObjectURL(prev.result.url);
+        return { ...prev, result: { blob, url: URL.createObjectURL(blob) }, processing: false };
+      });
+    } catch (error) {
+      console.error('Error processing image:', error);
+      if (job !== imageJobRef.current) return;
+      setImageDraft(prev => prev && { ...prev, processing: false, error: `Processing failed: ${(error as Error).message}` });
+    }
+  };
+
+  const handleImageMaxDimensionChange = async (maxDimension: number) => {
+    setImageMaxDimension(maxDimension);
+    try {
+      await storage.set(IMAGE_MAX_DIMENSION_KEY, JSON.stringify(maxDimension));
+    } catch (error) {
+      console.error('Error saving image size setting:', error);
+    }
+    if (imageDraft) updateImageDraft(imageDraft, maxDimension);
+  };
+
+  const updateImageCrop = (crop: CropRect | null) => {
+    if (!imageDraft) return;
+    updateImageDraft({ ...imageDraft, crop: crop && clampCrop(crop, imageDraft.width, imageDraft.height) });
+  };
+
+  const applyImageDraft = async (useOriginal = false) => {
+    if (!imageDraft) return;
+    const blob = useOriginal || imageDraft.keepAnimation ? imageDraft.file : imageDraft.result?.blob;
+    if (!blob) return;
+    if (blob.size > MAX_STORED_BYTES) {
+      alert(`Image is too large to store (${formatBytes(blob.size)}). Please use an image smaller than ${formatBytes(MAX_STORED_BYTES)}.`);
+      return;
+    }
+
+    // The binary goes to IndexedDB; the command only keeps a reference
+    try {
+      const ref = await putImage(blob);
+      console.log('Image stored, size:', formatBytes(blob.size), 'type:', blob.type);
+      setEditImage(ref);
+      discardImageDraft();
+    } catch (error) {
+      console.error('Error storing image:', error);
+      alert('Failed to store image file');
     }
   };
 
@@ -383,6 +1023,31 @@ export default function DSTCommandManager() {
     }
   };
 
+  // Revision history
+  const loadRevisions = async (id: number) => {
+    try {
+      const data = await storage.get(`dstrev:${id}`);
+      setRevisions(data ? JSON.parse(data.value) : []);
+    } catch (error) {
+      console.error('Error loading revisions:', error);
+      setRevisions([]);
+    }
+  };
+
+  // Loads a revision into the editor; saving it records a new revision
+  const restoreRevision = (revision: CommandRevision) => {
+    setEditName(revision.name);
+    setEditCommand(revision.command);
+    setEditTags(revision.tags.filter(tagName => tags.some(t => t.name === tagName)));
+    setEditCategory(revision.category && categories.some(c => c.id === revision.category) ? revision.category : null);
+    // Uploaded images are only referenced, so the current one is kept
+    if (!isInlineImageReference(revision.image)) {
+      setEditImage(revision.image);
+    }
+    setShowRevisions(false);
+    setSelectedRevision(null);
+  };
+
   const handleSave = async (id, e) => {
     if (e) e.stopPropagation();
 
@@ -395,11 +1060,31 @@ export default function DSTCommandManager() {
       return;
     }
 
+    // Syntax errors block saving unless explicitly overridden in the editor
+    const syntaxError = validateLua(trimmedCommand);
+    const commandUnknownPrefabs = findUnknownPrefabs(trimmedCommand);
+    if (syntaxError && !saveDespiteSyntaxError) {
+      return;
+    }
+
+    // Another tab may have saved or deleted this command since the editor opened
+    const stored = await storage.get(`dst:${id}`);
+    if (!isSameRecord(stored ? stored.value : null, editBase)) {
+      if (editBase !== null) {
+        setEditConflict({ remote: stored ? JSON.parse(stored.value) : null });
+        return;
+      }
+      // A new command whose id another tab took meanwhile just gets the next one
+      id = Math.max(maxCommandId(commands, trash), JSON.parse(stored!.value).id) + 1;
+      setEditingId(id);
+    }
+
     setSaving(true);
     setSaveSuccess(false);
 
     try {
       const currentCmd = commands.find(c => c.id === id);
+      const now = new Date().toISOString();
       const updatedCommand = {
         id,
         name: trimmedName,
@@ -407,7 +1092,9 @@ export default function DSTCommandManager() {
         image: trimmedImage,
         tags: editTags,
         category: editCategory,
-        favorite: currentCmd?.favorite || false
+        favorite: currentCmd?.favorite || false,
+        createdAt: currentCmd ? currentCmd.createdAt : now,
+        updatedAt: now
       };
       const commandJson = JSON.stringify(updatedCommand);
 
@@ -419,6 +1106,21 @@ export default function DSTCommandManager() {
         return;
       }
 
+      // Revisions are a record of past saves, so they stay out of undo
+      const storedRevisions = await storage.get(`dstrev:${id}`);
+      const updatedRevisions = appendRevision(storedRevisions ? JSON.parse(storedRevisions.value) : [], currentCmd, updatedCommand);
+      const revisionsJson = JSON.stringify(updatedRevisions);
+
+      // Offer ways to free space instead of letting the write fail
+      const { used, available } = storageAdapter.getStorageInfo();
+      const growth = estimateRecordGrowth(currentCmd ? JSON.stringify(currentCmd) : null, commandJson)
+        + estimateRecordGrowth(storedRevisions ? storedRevisions.value : null, revisionsJson);
+      if (used + growth > available) {
+        setSaving(false);
+        openStoragePanel(`Saving "${trimmedName}" needs ${formatBytes(used + growth - available)} more than the space left. Free some up below, then save again.`);
+        return;
+      }
+
       console.log('Saving command, total size:', Math.round(commandJson.length / 1024), 'KB');
       const result = await storage.set(`dst:${id}`, commandJson);
 
@@ -428,6 +1130,15 @@ export default function DSTCommandManager() {
 
       console.log('Command saved successfully');
 
+      if (!await storage.set(`dstrev:${id}`, revisionsJson)) {
+        console.warn('Failed to save revision history');
+      }
+      setRevisions(updatedRevisions);
+      recordHistory(
+        currentCmd ? `Edited "${trimmedName}"` : `Created "${trimmedName}"`,
+        [recordChange(`dst:${id}`, currentCmd ?? null, commandJson)]
+      );
+
       // Add to commands list if it's a new command
       if (!commands.find(c => c.id === id)) {
         setCommands([...commands, updatedCommand]);
@@ -435,6 +1146,25 @@ export default function DSTCommandManager() {
         setCommands(commands.map(c => c.id === id ? updatedCommand : c));
       }
 
+      setSyntaxErrors(prev => {
+        const updated = { ...prev };
+        if (syntaxError) {
+          updated[id] = syntaxError;
+        } else {
+          delete updated[id];
+        }
+        return updated;
+      });
+      setUnknownPrefabs(prev => {
+        const updated = { ...prev };
+        if (commandUnknownPrefabs.length > 0) {
+          updated[id] = commandUnknownPrefabs;
+        } else {
+          delete updated[id];
+        }
+        return updated;
+      });
+
       setSaving(false);
       setSaveSuccess(true);
 
@@ -456,11 +1186,34 @@ export default function DSTCommandManager() {
     }
   };
 
+  const resolveEditConflict = (choice: 'mine' | 'theirs') => {
+    if (!editConflict) return;
+    const { remote } = editConflict;
+    setEditConflict(null);
+    if (choice === 'mine') {
+      // Saving will now overwrite the other tab's version (or recreate it)
+      setEditBase(remote ? JSON.stringify(remote) : null);
+      return;
+    }
+    if (!remote) {
+      handleCancel(editingId, null);
+      return;
+    }
+    setEditName(remote.name);
+    setEditCommand(remote.command);
+    setEditImage(remote.image || '');
+    setEditTags(remote.tags || []);
+    setEditCategory(remote.category || null);
+    setEditBase(JSON.stringify(remote));
+  };
+
   const handleCancel = async (id, e) => {
     if (e) e.stopPropagation();
 
     setEditingId(null);
     setShowCommandEditor(false);
+    setEditConflict(null);
+    discardImageDraft();
     setEditName('');
     setEditCommand('');
     setEditImage('');
@@ -492,6 +1245,14 @@ export default function DSTCommandManager() {
       await executeDeleteCommand(item);
     } else if (type === 'tag') {
       await executeDeleteTag(item);
+    } else if (type === 'category') {
+      await executeDeleteCategory(item as Category);
+    } else if (type === 'view') {
+      await executeDeleteView(item as SavedView);
+    } else if (type === 'macro') {
+      await executeDeleteMacro(item as Macro);
+    } else if (type === 'trash') {
+      await executePurgeTrashEntry(item as TrashEntry);
     }
   };
 
@@ -509,6 +1270,16 @@ export default function DSTCommandManager() {
         throw new Error('Failed to save changes to storage');
       }
 
+      // Keep a copy in the trash so it can be restored later
+      const trashEntry = createCommandTrashEntry(cmd);
+      await storage.set(`dsttrash:${trashEntry.id}`, JSON.stringify(trashEntry));
+      setTrash(prev => [...prev, trashEntry]);
+
+      recordHistory(`Deleted "${cmd.name}"`, [
+        recordChange(`dst:${cmd.id}`, cmd, null),
+        recordChange(`dsttrash:${trashEntry.id}`, null, trashEntry)
+      ]);
+
       // Update state only after successful deletion
       setCommands(prevCommands => {
         const updated = prevCommands.filter(c => c.id !== cmd.id);
@@ -532,36 +1303,687 @@ export default function DSTCommandManager() {
     }
   };
 
-  const handleCardClick = async (cmd) => {
-    if (editingId === cmd.id) return;
+  // Trash
+  const restoreTrashEntry = async (entry: TrashEntry) => {
+    const changes = [recordChange(`dsttrash:${entry.id}`, entry, null)];
+    let name = entry.record.name;
+
+    if (entry.type === 'command') {
+      const cmd = planCommandRestore(entry, commands);
+      changes.unshift(recordChange(`dst:${cmd.id}`, null, cmd));
+    } else {
+      const plan = planTagRestore(entry, tags, commands);
+      if (plan.tag) {
+        changes.unshift(recordChange(`dsttag:${plan.tag.id}`, null, plan.tag));
+        name = plan.tag.name;
+      }
+      for (const cmd of plan.commands) {
+        changes.splice(changes.length - 1, 0, recordChange(`dst:${cmd.id}`, commands.find(c => c.id === cmd.id), cmd));
+      }
+    }
 
     try {
-      await navigator.clipboard.writeText(cmd.command);
-      setCopiedId(cmd.id);
-      setTimeout(() => setCopiedId(null), 2000);
+      for (const change of changes) {
+        await applyStoredValue(change.key, change.after);
+      }
+      recordHistory(`Restored ${entry.type} "${name}"`, changes);
     } catch (error) {
-      console.error('Failed to copy:', error);
-      alert('Failed to copy to clipboard');
+      console.error('Error restoring from trash:', error);
+      alert('Failed to restore. Please try again.');
     }
   };
 
-  // Tag management
-  const addNewTag = () => {
-    const newId = tags.length > 0 ? Math.max(...tags.map(t => t.id)) + 1 : 1;
-    const newTag = { id: newId, name: '', color: '#3b82f6' };
-    setTags([...tags, newTag]);
-    setEditingTagId(newId);
-    setEditTagName('');
-    setEditTagColor('#3b82f6');
+  // A purged command takes its revision history with it
+  const purgeTrashStorage = async (entry: TrashEntry) => {
+    if (entry.type === 'command') {
+      await storage.delete(`dstrev:${entry.record.id}`);
+    }
+    return storage.delete(`dsttrash:${entry.id}`);
   };
 
-  const handleEditTag = (tag) => {
-    setEditingTagId(tag.id);
-    setEditTagName(tag.name);
-    setEditTagColor(tag.color);
+  const handlePurgeTrashEntry = (entry: TrashEntry) => {
+    setDeleteConfirm({ show: true, type: 'trash', item: entry, deleting: false, error: null });
   };
 
-  const handleSaveTag = async (id) => {
+  const executePurgeTrashEntry = async (entry: TrashEntry) => {
+    setDeleteConfirm(prev => ({ ...prev, deleting: true, error: null }));
+
+    try {
+      const result = await purgeTrashStorage(entry);
+      if (!result) {
+        throw new Error('Failed to save changes to storage');
+      }
+      setTrash(prev => prev.filter(e => e.id !== entry.id));
+      setDeleteConfirm({ show: false, type: null, item: null, deleting: false, error: null });
+    } catch (error) {
+      console.error('Error purging trash item:', error);
+      setDeleteConfirm(prev => ({ ...prev, deleting: false, error: `Failed to delete permanently: ${(error as Error).message}` }));
+    }
+  };
+
+  const handleRetentionChange = async (days: number) => {
+    try {
+      await storage.set(TRASH_RETENTION_KEY, JSON.stringify(days));
+      setTrashRetentionDays(days);
+
+      const expired = findExpiredEntries(trash, days);
+      for (const entry of expired) {
+        await purgeTrashStorage(entry);
+      }
+      setTrash(prev => prev.filter(entry => !expired.includes(entry)));
+    } catch (error) {
+      console.error('Error saving trash retention:', error);
+      alert('Failed to save retention setting. Please try again.');
+    }
+  };
+
+  // Image cache panel
+  const loadImageCacheRows = () => {
+    setImageCacheRows(describeImageCache(imageCache.entries(), IMAGE_CACHE_MAX_AGE, IMAGE_MISS_MAX_AGE));
+  };
+
+  const openImageCache = () => {
+    loadImageCacheRows();
+    setShowImageCache(true);
+  };
+
+  const cancelImageCacheRefresh = () => imageQueue.release(IMAGE_CACHE_PANEL_OWNER);
+
+  const closeImageCache = () => {
+    cancelImageCacheRefresh();
+    setShowImageCache(false);
+  };
+
+  // Commands whose card shows the auto-fetched image for a cache key
+  const commandsUsingImageKey = (key: string) => commands.filter(cmd => !cmd.image && imageLookupKey(cmd) === key);
+
+  // Looks an entry up again and updates the cards using it. Refreshes go
+  // through the image queue, so they share its concurrency limit and wait
+  // out the wiki's rate limiting instead of adding to it
+  const refreshImageCacheEntry = async (key: string) => {
+    const users = commandsUsingImageKey(key);
+    const lookup = await imageQueue.request(`refresh:${key}`, IMAGE_CACHE_PANEL_OWNER, signal =>
+      fetchDSTImage(users[0] ?? commandForImageKey(key), { signal, refresh: true }));
+    users.forEach(cmd => showImageLookup(cmd.id, lookup));
+  };
+
+  const handleRefreshImageEntry = async (key: string) => {
+    setRefreshingImageKey(key);
+    try {
+      await refreshImageCacheEntry(key);
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error(`Error refreshing image for ${key}:`, error);
+        showToast(`Could not reach the wiki to refresh "${key}"`, false);
+      }
+    }
+    setRefreshingImageKey(null);
+    loadImageCacheRows();
+  };
+
+  const refreshAllImages = async () => {
+    const keys = imageCacheRows.map(row => row.key);
+    let done = 0;
+    let failed = 0;
+    let cancelled = false;
+    setImageCacheProgress({ done, total: keys.length });
+    await Promise.all(keys.map(key => refreshImageCacheEntry(key)
+      .catch(error => {
+        if (isAbortError(error)) {
+          cancelled = true;
+          return;
+        }
+        console.error(`Error refreshing image for ${key}:`, error);
+        failed++;
+      })
+      .finally(() => setImageCacheProgress({ done: ++done, total: keys.length }))));
+    setImageCacheProgress(null);
+    loadImageCacheRows();
+    if (cancelled) return;
+    showToast(failed > 0
+      ? `Refreshed ${keys.length - failed} of ${keys.length} images; the wiki could not be reached for ${failed}`
+      : `Refreshed ${keys.length} images`, false);
+  };
+
+  const clearImageCacheEntries = (expiredOnly: boolean) => {
+    const rows = describeImageCache(imageCache.entries(), IMAGE_CACHE_MAX_AGE, IMAGE_MISS_MAX_AGE);
+    const keys = rows.filter(row => !expiredOnly || row.expired).map(row => row.key);
+    keys.forEach(key => delete IMAGE_CACHE[key]);
+    if (expiredOnly) {
+      imageCache.remove(...keys);
+    } else {
+      imageCache.clear();
+    }
+    loadImageCacheRows();
+    showToast(`Removed ${keys.length} cached ${keys.length === 1 ? 'image' : 'images'}`, false);
+  };
+
+  // Saves the cached image into the commands using it, so they no longer depend on the cache
+  const pinCachedImage = async (row: ImageCacheRow) => {
+    const targets = commandsUsingImageKey(row.key);
+    const now = new Date().toISOString();
+    const pinned = new Map<number, Command>();
+    const changes: StorageChange[] = [];
+    try {
+      for (const cmd of targets) {
+        const updatedCommand = { ...cmd, image: row.entry.url, updatedAt: now };
+        if (!await storage.set(`dst:${cmd.id}`, JSON.stringify(updatedCommand))) {
+          throw new Error('Failed to save changes to storage');
+        }
+        const storedRevisions = await storage.get(`dstrev:${cmd.id}`);
+        const updatedRevisions = appendRevision(storedRevisions ? JSON.parse(storedRevisions.value) : [], cmd, updatedCommand);
+        if (!await storage.set(`dstrev:${cmd.id}`, JSON.stringify(updatedRevisions))) {
+          console.warn('Failed to save revision history');
+        }
+        pinned.set(cmd.id, updatedCommand);
+        changes.push(recordChange(`dst:${cmd.id}`, cmd, updatedCommand));
+      }
+    } catch (error) {
+      console.error('Error pinning image:', error);
+      showToast(`Failed to pin image: ${(error as Error).message}`, false);
+    }
+    if (pinned.size === 0) return;
+    setCommands(commands.map(c => pinned.get(c.id) ?? c));
+    recordHistory(
+      pinned.size === 1 ? `Pinned image on "${[...pinned.values()][0].name}"` : `Pinned image on ${pinned.size} commands`,
+      changes
+    );
+  };
+
+  // Storage usage
+  const loadStorageUsage = () => {
+    setStorageUsage({ ...storageAdapter.getStorageInfo(), breakdown: measureStorageBreakdown(VIEWER_FAVORITES_KEY) });
+    measureImageStore().then(setImageStoreUsage, error => {
+      console.error('Error measuring the image store:', error);
+      setImageStoreUsage(null);
+    });
+  };
+
+  const openStoragePanel = (warning: string | null = null) => {
+    loadStorageUsage();
+    setStoragePanel({ warning });
+  };
+
+  const clearImageCacheForSpace = () => {
+    clearImageCacheEntries(false);
+    loadStorageUsage();
+  };
+
+  // Moves base64 images left in command and trash records into the image store
+  const moveEmbeddedImages = async () => {
+    setStorageBusy(true);
+    try {
+      const extracted = await extractInlineImages(commands);
+      for (const cmd of extracted) {
+        if (!await storage.set(`dst:${cmd.id}`, JSON.stringify(cmd))) {
+          throw new Error('Failed to save changes to storage');
+        }
+      }
+      const updatedTrash = new Map<string, TrashEntry>();
+      for (const entry of trash) {
+        if (entry.type !== 'command') continue;
+        const [extractedCommand] = await extractInlineImages([entry.record]);
+        if (!extractedCommand) continue;
+        const updatedEntry = { ...entry, record: extractedCommand };
+        if (!await storage.set(`dsttrash:${entry.id}`, JSON.stringify(updatedEntry))) {
+          throw new Error('Failed to save changes to storage');
+        }
+        updatedTrash.set(entry.id, updatedEntry);
+      }
+      setCommands(commands.map(cmd => extracted.find(c => c.id === cmd.id) || cmd));
+      setTrash(prev => prev.map(entry => updatedTrash.get(entry.id) || entry));
+      const moved = extracted.length + updatedTrash.size;
+      showToast(`Moved ${moved} ${moved === 1 ? 'image' : 'images'} to the image store`, false);
+    } catch (error) {
+      console.error('Error moving embedded images:', error);
+      showToast(`Failed to move images: ${(error as Error).message}`, false);
+    }
+    setStorageBusy(false);
+    loadStorageUsage();
+  };
+
+  // Undo/redo
+  const showToast = (message: string, undoable: boolean) => {
+    if (toastTimerRef.current) clearTimeout(toastTimerRef.current);
+    setToast({ message, undoable });
+    toastTimerRef.current = setTimeout(() => setToast(null), 5000);
+  };
+
+  const recordHistory = (label: string, changes: StorageChange[]) => {
+    setHistory(prev => pushHistory(prev, { label, changes }));
+    showToast(label, true);
+  };
+
+  // Writes one stored value back and mirrors it into component state
+  const applyStoredValue = async (key: string, value: string | null) => {
+    if (key === VIEWER_FAVORITES_KEY) {
+      viewerFavoritesStorage.set(value === null ? {} : JSON.parse(value));
+    } else if (key === VIEWER_VIEWS_KEY) {
+      viewerViewsStorage.set(value === null ? [] : JSON.parse(value));
+    } else {
+      const result = value === null ? await storage.delete(key) : await storage.set(key, value);
+      if (!result) {
+        throw new Error('Failed to save changes to storage');
+      }
+    }
+    mirrorStoredValue(key, value);
+  };
+
+  // Updates component state to match a stored value
+  const mirrorStoredValue = (key: string, value: string | null) => {
+    const parsed = value === null ? null : JSON.parse(value);
+
+    if (key === VIEWER_FAVORITES_KEY) {
+      setViewerFavorites(parsed ?? {});
+      return;
+    }
+    if (key === VIEWER_VIEWS_KEY) {
+      setViewerViews(parsed ?? []);
+      return;
+    }
+    if (key === TRASH_RETENTION_KEY) {
+      setTrashRetentionDays(parsed ?? DEFAULT_RETENTION_DAYS);
+      return;
+    }
+    if (key === IMAGE_MAX_DIMENSION_KEY) {
+      setImageMaxDimension(parsed ?? DEFAULT_MAX_DIMENSION);
+      return;
+    }
+
+    const [prefix, rawId] = key.split(':');
+    if (prefix === 'dsttrash') {
+      setTrash(prev => [...prev.filter(entry => entry.id !== rawId), ...(parsed ? [parsed] : [])]);
+      return;
+    }
+    if (prefix === 'dstcat') {
+      setCategories(prev => [...prev.filter(c => c.id !== rawId), ...(parsed ? [parsed] : [])].sort((a, b) => a.order - b.order));
+      return;
+    }
+    if (prefix === 'dstrev') {
+      if (Number(rawId) === editingId) setRevisions(parsed ?? []);
+      return;
+    }
+
+    const id = Number(rawId);
+    const upsert = <T extends { id: number }>(list: T[]) => {
+      const rest = list.filter(item => item.id !== id);
+      return parsed ? [...rest, parsed as T].sort((a, b) => a.id - b.id) : rest;
+    };
+
+    if (prefix === 'dst') {
+      setCommands(upsert);
+      const diagnostic = parsed ? validateLua(parsed.command) : null;
+      const commandUnknownPrefabs = parsed ? findUnknownPrefabs(parsed.command) : [];
+      setSyntaxErrors(prev => {
+        const updated = { ...prev };
+        if (diagnostic) updated[id] = diagnostic; else delete updated[id];
+        return updated;
+      });
+      setUnknownPrefabs(prev => {
+        const updated = { ...prev };
+        if (commandUnknownPrefabs.length > 0) updated[id] = commandUnknownPrefabs; else delete updated[id];
+        return updated;
+      });
+    } else if (prefix === 'dsttag') {
+      setTags(upsert);
+    } else if (prefix === 'dstview') {
+      setViews(upsert);
+    } else if (prefix === 'dstmacro') {
+      setMacros(upsert);
+    }
+  };
+
+  // Changes saved in other tabs show up here as they happen
+  useEffect(() => watchOtherTabs([VIEWER_FAVORITES_KEY, VIEWER_VIEWS_KEY], (changes: RemoteChange[]) => {
+    for (const { key, value } of changes) {
+      mirrorStoredValue(key, value);
+      // An open edit of the same command is not overwritten; the user decides
+      if (showCommandEditor && editBase !== null && key === `dst:${editingId}` && !isSameRecord(value, editBase)) {
+        setEditConflict({ remote: value === null ? null : JSON.parse(value) });
+      }
+    }
+    // Undoing these changes' predecessors would overwrite the other tab's work
+    setHistory(prev => discardEntriesTouching(prev, new Set(changes.map(change => change.key))));
+  }));
+
+  const stepHistory = async (direction: 'undo' | 'redo') => {
+    const step = direction === 'undo' ? takeUndo(history) : takeRedo(history);
+    if (!step) return;
+    setHistory(step.history);
+
+    try {
+      for (const { key, value } of writesFor(step.entry, direction)) {
+        await applyStoredValue(key, value);
+      }
+      showToast(`${direction === 'undo' ? 'Undid' : 'Redid'}: ${step.entry.label}`, false);
+    } catch (error) {
+      console.error(`Error during ${direction}:`, error);
+      alert(`Failed to ${direction}. Please try again.`);
+    }
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their own undo.
+  // The listener stays attached and calls the latest stepHistory via a ref.
+  const stepHistoryRef = useRef(stepHistory);
+
+  useEffect(() => {
+    stepHistoryRef.current = stepHistory;
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      e.preventDefault();
+      stepHistoryRef.current(e.shiftKey ? 'redo' : 'undo');
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Admin mode: unlocked with a passphrase, locked again when idle
+  const openAdminAuth = async (mode: 'unlock' | 'change') => {
+    try {
+      const data = await storage.get(ADMIN_PASSPHRASE_KEY);
+      setAdminAuth({
+        mode: mode === 'unlock' && !data ? 'create' : mode,
+        current: '',
+        passphrase: '',
+        confirmation: '',
+        error: null,
+        busy: false
+      });
+    } catch (error) {
+      console.error('Error reading admin passphrase:', error);
+      alert('Failed to read admin settings');
+    }
+  };
+
+  const submitAdminAuth = async () => {
+    if (!adminAuth || adminAuth.busy) return;
+    const { mode, current, passphrase, confirmation } = adminAuth;
+    const fail = (error: string) => setAdminAuth(prev => prev && { ...prev, busy: false, error });
+    setAdminAuth({ ...adminAuth, busy: true, error: null });
+
+    try {
+      const data = await storage.get(ADMIN_PASSPHRASE_KEY);
+      const record: PassphraseRecord | null = data ? JSON.parse(data.value) : null;
+
+      if (mode === 'create' && record) {
+        // Set meanwhile from another tab
+        setAdminAuth({ ...adminAuth, mode: 'unlock', passphrase: '', confirmation: '', busy: false, error: 'A passphrase has already been set' });
+        return;
+      }
+      if (mode !== 'create') {
+        const entered = mode === 'unlock' ? passphrase : current;
+        if (!record || !(await verifyPassphrase(entered, record))) {
+          fail(mode === 'unlock' ? 'Incorrect passphrase' : 'Current passphrase is incorrect');
+          return;
+        }
+      }
+      if (mode !== 'unlock') {
+        const validationError = validateNewPassphrase(passphrase, confirmation);
+        if (validationError) {
+          fail(validationError);
+          return;
+        }
+        await storage.set(ADMIN_PASSPHRASE_KEY, JSON.stringify(await createPassphraseRecord(passphrase)));
+      }
+
+      setAdminAuth(null);
+      if (mode === 'change') {
+        showToast('Admin passphrase changed', false);
+      } else {
+        lastActivityRef.current = Date.now();
+        setIsAdminMode(true);
+      }
+    } catch (error) {
+      console.error('Error checking admin passphrase:', error);
+      fail(`Failed: ${(error as Error).message}`);
+    }
+  };
+
+  const lockAdminMode = (message?: string) => {
+    setIsAdminMode(false);
+    // Admin-only dialogs and pending work go with it; history is cleared so
+    // viewers cannot undo or redo admin changes
+    if (showCommandEditor) handleCancel(editingId, null);
+    setShowTagManager(false);
+    setShowCategoryManager(false);
+    setShowTrash(false);
+    closeImageCache();
+    setStoragePanel(null);
+    setMacroDraft(null);
+    setAdminAuth(null);
+    setDeleteConfirm({ show: false, type: null, item: null, deleting: false, error: null });
+    setHistory(EMPTY_HISTORY);
+    if (message) showToast(message, false);
+  };
+
+  // The idle check lives as long as admin mode does, however often the page
+  // re-renders, and locks through the latest lockAdminMode
+  const lockAdminModeRef = useRef(lockAdminMode);
+
+  useEffect(() => {
+    lockAdminModeRef.current = lockAdminMode;
+  });
+
+  useEffect(() => {
+    if (!isAdminMode) return;
+    const markActivity = () => {
+      lastActivityRef.current = Date.now();
+    };
+    const events = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'];
+    events.forEach(event => window.addEventListener(event, markActivity, { passive: true }));
+    const timer = setInterval(() => {
+      if (Date.now() - lastActivityRef.current >= ADMIN_IDLE_TIMEOUT_MS) {
+        lockAdminModeRef.current('Admin mode locked after inactivity');
+      }
+    }, 30000);
+    return () => {
+      events.forEach(event => window.removeEventListener(event, markActivity));
+      clearInterval(timer);
+    };
+  }, [isAdminMode]);
+
+  // Prefab autocomplete in the command editor
+  const updatePrefabCompletion = (code: string, caret: number) => {
+    const completion = getPrefabCompletion(code, caret);
+    // Stay closed once the argument is already a complete, known prefab
+    const isOpen = completion && !findPrefab(completion.partial) && searchPrefabs(completion.partial).length > 0;
+    setPrefabCompletion(isOpen ? completion : null);
+    setPrefabCompletionIndex(0);
+  };
+
+  const applyPrefabCompletion = (prefabId: string) => {
+    if (!prefabCompletion) return;
+    const { start, end } = prefabCompletion;
+    setEditCommand(editCommand.slice(0, start) + prefabId + editCommand.slice(end));
+    setPrefabCompletion(null);
+
+    // Put the caret after the inserted id once React has updated the textarea
+    const caret = start + prefabId.length;
+    requestAnimationFrame(() => {
+      commandInputRef.current?.focus();
+      commandInputRef.current?.setSelectionRange(caret, caret);
+    });
+  };
+
+  const handleCommandKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!prefabCompletion) return;
+    const suggestions = searchPrefabs(prefabCompletion.partial);
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setPrefabCompletionIndex((prefabCompletionIndex + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setPrefabCompletionIndex((prefabCompletionIndex - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      applyPrefabCompletion(suggestions[prefabCompletionIndex].id);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setPrefabCompletion(null);
+    }
+  };
+
+  const copyCommand = async (cmd: Command, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopiedId(cmd.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (error) {
+      console.error('Failed to copy:', error);
+      alert('Failed to copy to clipboard');
+    }
+  };
+
+  const handleCardClick = async (cmd: Command) => {
+    if (editingId === cmd.id) return;
+
+    // Templated commands need their placeholder values filled in first
+    const placeholders = parseTemplate(cmd.command);
+    if (placeholders.length > 0) {
+      setTemplateFill({
+        name: cmd.name,
+        code: cmd.command,
+        copy: text => copyCommand(cmd, text),
+        placeholders,
+        values: getTemplateDefaults(placeholders),
+        errors: {}
+      });
+      return;
+    }
+
+    await copyCommand(cmd, unescapeTemplate(cmd.command));
+  };
+
+  const copyMacro = async (macro: Macro, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopiedMacroId(macro.id);
+      setTimeout(() => setCopiedMacroId(null), 2000);
+    } catch (error) {
+      console.error('Failed to copy:', error);
+      alert('Failed to copy to clipboard');
+    }
+  };
+
+  const handleMacroClick = async (macro: Macro) => {
+    const code = buildMacroCode(macro, commands);
+    if (!code) return;
+
+    // Placeholders shared by several steps are asked for once
+    const placeholders = parseTemplate(code);
+    if (placeholders.length > 0) {
+      setTemplateFill({
+        name: macro.name,
+        code,
+        copy: text => copyMacro(macro, text),
+        placeholders,
+        values: getTemplateDefaults(placeholders),
+        errors: {}
+      });
+      return;
+    }
+
+    await copyMacro(macro, unescapeTemplate(code));
+  };
+
+  const handleTemplateCopy = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!templateFill) return;
+
+    const errors = validateTemplateValues(templateFill.placeholders, templateFill.values);
+    if (Object.keys(errors).length > 0) {
+      setTemplateFill({ ...templateFill, errors });
+      return;
+    }
+
+    setTemplateFill(null);
+    await templateFill.copy(renderTemplate(templateFill.code, templateFill.values));
+  };
+
+  // Macro management
+  const handleSaveMacro = async () => {
+    if (!macroDraft) return;
+    const trimmedName = macroDraft.name.trim();
+
+    if (!trimmedName || macroDraft.commandIds.length === 0) {
+      alert('A macro needs a name and at least one command!');
+      return;
+    }
+
+    const macro = {
+      id: macroDraft.id ?? nextMacroId(macros),
+      name: trimmedName,
+      commandIds: macroDraft.commandIds
+    };
+
+    try {
+      const result = await storage.set(`dstmacro:${macro.id}`, JSON.stringify(macro));
+      if (!result) {
+        throw new Error('Storage operation returned null');
+      }
+      setMacros(prev => prev.some(m => m.id === macro.id)
+        ? prev.map(m => m.id === macro.id ? macro : m)
+        : [...prev, macro]);
+      setMacroDraft(null);
+    } catch (error) {
+      console.error('Error saving macro:', error);
+      alert('Failed to save macro. Please try again.');
+    }
+  };
+
+  const moveMacroStep = (index: number, direction: -1 | 1) => {
+    if (!macroDraft) return;
+    const commandIds = [...macroDraft.commandIds];
+    const target = index + direction;
+    if (target < 0 || target >= commandIds.length) return;
+    [commandIds[index], commandIds[target]] = [commandIds[target], commandIds[index]];
+    setMacroDraft({ ...macroDraft, commandIds });
+  };
+
+  const handleDeleteMacro = (macro: Macro, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setDeleteConfirm({ show: true, type: 'macro', item: macro, deleting: false, error: null });
+  };
+
+  const executeDeleteMacro = async (macro: Macro) => {
+    setDeleteConfirm(prev => ({ ...prev, deleting: true, error: null }));
+
+    try {
+      const result = await storage.delete(`dstmacro:${macro.id}`);
+      if (!result) {
+        throw new Error('Failed to save changes to storage');
+      }
+      setMacros(prev => prev.filter(m => m.id !== macro.id));
+      setDeleteConfirm({ show: false, type: null, item: null, deleting: false, error: null });
+    } catch (error) {
+      console.error('Error deleting macro:', error);
+      setDeleteConfirm(prev => ({ ...prev, deleting: false, error: `Failed to delete macro: ${(error as Error).message}` }));
+    }
+  };
+
+  // Tag management
+  const addNewTag = () => {
+    const newId = tags.length > 0 ? Math.max(...tags.map(t => t.id)) + 1 : 1;
+    const newTag = { id: newId, name: '', color: '#3b82f6' };
+    setTags([...tags, newTag]);
+    setEditingTagId(newId);
+    setEditTagName('');
+    setEditTagColor('#3b82f6');
+  };
+
+  const handleEditTag = (tag) => {
+    setEditingTagId(tag.id);
+    setEditTagName(tag.name);
+    setEditTagColor(tag.color);
+  };
+
+  const handleSaveTag = async (id) => {
     const trimmedName = editTagName.trim();
 
     if (!trimmedName) {
@@ -579,6 +2001,8 @@ export default function DSTCommandManager() {
       const oldTag = tags.find(t => t.id === id);
       const updatedTag = { id, name: trimmedName, color: editTagColor };
       await storage.set(`dsttag:${id}`, JSON.stringify(updatedTag));
+      // A tag added in the manager is only stored once it is first saved
+      const changes = [recordChange(`dsttag:${id}`, oldTag?.name ? oldTag : null, updatedTag)];
 
       // Update tag name in all commands that use it
       if (oldTag && oldTag.name !== trimmedName) {
@@ -587,12 +2011,22 @@ export default function DSTCommandManager() {
             const updatedTags = cmd.tags.map(t => t === oldTag.name ? trimmedName : t);
             const updatedCommand = { ...cmd, tags: updatedTags };
             await storage.set(`dst:${cmd.id}`, JSON.stringify(updatedCommand));
+            changes.push(recordChange(`dst:${cmd.id}`, cmd, updatedCommand));
             setCommands(prev => prev.map(c => c.id === cmd.id ? updatedCommand : c));
           }
         }
       }
 
       setTags(tags.map(t => t.id === id ? updatedTag : t));
+      if (oldTag && oldTag.name !== trimmedName) {
+        setFilter(prev => renameFilterTag(prev, oldTag.name, trimmedName));
+        changes.push(...await saveViewChanges(cascadeTagChange(views, oldTag.name, trimmedName), 'shared'));
+        changes.push(...await saveViewChanges(cascadeTagChange(viewerViews, oldTag.name, trimmedName), 'private'));
+      }
+      recordHistory(
+        oldTag?.name && oldTag.name !== trimmedName ? `Renamed tag "${oldTag.name}" to "${trimmedName}"` : `Saved tag "${trimmedName}"`,
+        changes
+      );
       setEditingTagId(null);
     } catch (error) {
       console.error('Error saving tag:', error);
@@ -632,12 +2066,22 @@ export default function DSTCommandManager() {
       const result = await storage.delete(`dsttag:${tag.id}`);
       console.log('Tag storage delete result:', result);
 
+      // The trash entry remembers which commands had the tag
+      const trashEntry = createTagTrashEntry(tag, commands);
+      await storage.set(`dsttrash:${trashEntry.id}`, JSON.stringify(trashEntry));
+      setTrash(prev => [...prev, trashEntry]);
+      const changes = [
+        recordChange(`dsttag:${tag.id}`, tag, null),
+        recordChange(`dsttrash:${trashEntry.id}`, null, trashEntry)
+      ];
+
       // Remove tag from all commands
       for (const cmd of commands) {
         if (cmd.tags && cmd.tags.includes(tag.name)) {
           const updatedTags = cmd.tags.filter(t => t !== tag.name);
           const updatedCommand = { ...cmd, tags: updatedTags };
           await storage.set(`dst:${cmd.id}`, JSON.stringify(updatedCommand));
+          changes.push(recordChange(`dst:${cmd.id}`, cmd, updatedCommand));
           setCommands(prev => prev.map(c => c.id === cmd.id ? updatedCommand : c));
         }
       }
@@ -648,9 +2092,10 @@ export default function DSTCommandManager() {
         return updated;
       });
 
-      if (activeTag === tag.name) {
-        setActiveTag('all');
-      }
+      setFilter(prev => renameFilterTag(prev, tag.name, null));
+      changes.push(...await saveViewChanges(cascadeTagChange(views, tag.name, null), 'shared'));
+      changes.push(...await saveViewChanges(cascadeTagChange(viewerViews, tag.name, null), 'private'));
+      recordHistory(`Deleted tag "${tag.name}"`, changes);
 
       console.log('Tag deleted successfully');
       setDeleteConfirm({ show: false, type: null, item: null, deleting: false, error: null });
@@ -660,8 +2105,247 @@ export default function DSTCommandManager() {
     }
   };
 
-  const toggleFavorite = async (cmd, e) => {
-    e.stopPropagation();
+  // Category management
+  const addNewCategory = () => {
+    const newId = `cat_${Date.now().toString(36)}`;
+    const order = categories.length > 0 ? Math.max(...categories.map(c => c.order)) + 1 : 0;
+    setCategories([...categories, { id: newId, name: '', color: '#6b7280', order }]);
+    setEditingCategoryId(newId);
+    setEditCategoryName('');
+    setEditCategoryColor('#6b7280');
+  };
+
+  const handleEditCategory = (category: Category) => {
+    setEditingCategoryId(category.id);
+    setEditCategoryName(category.name);
+    setEditCategoryColor(category.color);
+  };
+
+  const handleSaveCategory = async (id: string) => {
+    const trimmedName = editCategoryName.trim();
+
+    if (!trimmedName) {
+      alert('Category name is required!');
+      return;
+    }
+
+    if (categories.some(c => c.id !== id && c.name.toLowerCase() === trimmedName.toLowerCase())) {
+      alert('A category with this name already exists!');
+      return;
+    }
+
+    try {
+      const category = categories.find(c => c.id === id);
+      const updatedCategory = { id, name: trimmedName, color: editCategoryColor, order: category?.order ?? categories.length };
+      const result = await storage.set(`dstcat:${id}`, JSON.stringify(updatedCategory));
+      if (!result) {
+        throw new Error('Failed to save changes to storage');
+      }
+
+      setCategories(categories.map(c => c.id === id ? updatedCategory : c));
+      setEditingCategoryId(null);
+    } catch (error) {
+      console.error('Error saving category:', error);
+      alert('Failed to save category. Please try again.');
+    }
+  };
+
+  const handleCancelCategory = (id: string) => {
+    const category = categories.find(c => c.id === id);
+    if (category && !category.name) {
+      setCategories(categories.filter(c => c.id !== id));
+    }
+    setEditingCategoryId(null);
+  };
+
+  const moveCategory = async (id: string, direction: -1 | 1) => {
+    const index = categories.findIndex(c => c.id === id);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= categories.length) return;
+
+    // Swap positions, then renumber so orders stay contiguous
+    const reordered = [...categories];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    const renumbered = reordered.map((c, order) => ({ ...c, order }));
+
+    try {
+      for (const category of renumbered) {
+        if (category.name) {
+          await storage.set(`dstcat:${category.id}`, JSON.stringify(category));
+        }
+      }
+      setCategories(renumbered);
+    } catch (error) {
+      console.error('Error reordering categories:', error);
+      alert('Failed to reorder categories. Please try again.');
+    }
+  };
+
+  const handleDeleteCategory = (id: string, e?: React.MouseEvent) => {
+    if (e) {
+      e.stopPropagation();
+      e.preventDefault();
+    }
+
+    const category = categories.find(c => c.id === id);
+    if (!category) {
+      console.error('Category not found for deletion');
+      return;
+    }
+
+    setCategoryReassignTo(null);
+    setDeleteConfirm({ show: true, type: 'category', item: category, deleting: false, error: null });
+  };
+
+  const executeDeleteCategory = async (category: Category) => {
+    setDeleteConfirm(prev => ({ ...prev, deleting: true, error: null }));
+
+    try {
+      // Move affected commands to the chosen category (or none) first
+      for (const cmd of commands) {
+        if (cmd.category === category.id) {
+          const updatedCommand = { ...cmd, category: categoryReassignTo };
+          const saved = await storage.set(`dst:${cmd.id}`, JSON.stringify(updatedCommand));
+          if (!saved) {
+            throw new Error(`Failed to update "${cmd.name}"`);
+          }
+          setCommands(prev => prev.map(c => c.id === cmd.id ? updatedCommand : c));
+        }
+      }
+
+      const result = await storage.delete(`dstcat:${category.id}`);
+      if (!result) {
+        throw new Error('Failed to save changes to storage');
+      }
+
+      setCategories(prev => prev.filter(c => c.id !== category.id));
+
+      if (filter.category === category.id) {
+        setFilter(prev => ({ ...prev, category: null }));
+      }
+      await saveViewChanges(cascadeCategoryDelete(views, category.id), 'shared');
+      await saveViewChanges(cascadeCategoryDelete(viewerViews, category.id), 'private');
+      if (editCategory === category.id) {
+        setEditCategory(categoryReassignTo);
+      }
+
+      setDeleteConfirm({ show: false, type: null, item: null, deleting: false, error: null });
+    } catch (error) {
+      console.error('Error deleting category:', error);
+      setDeleteConfirm(prev => ({ ...prev, deleting: false, error: `Failed to delete category: ${(error as Error).message}` }));
+    }
+  };
+
+  // Saved views
+  const applyView = (view: SavedView) => {
+    setFilter(view.filter);
+    setSearchQuery(view.search);
+  };
+
+  // Persists views changed by a cascade or edit; shared views go to the
+  // library, private ones to this browser only. Returns the changes made so
+  // cascades can be undone together with the edit that caused them.
+  const saveViewChanges = async (changed: SavedView[], scope: 'shared' | 'private'): Promise<StorageChange[]> => {
+    if (changed.length === 0) return [];
+
+    if (scope === 'shared') {
+      const changes = [];
+      for (const view of changed) {
+        const saved = await storage.set(`dstview:${view.id}`, JSON.stringify(view));
+        if (!saved) {
+          throw new Error(`Failed to save view "${view.name}"`);
+        }
+        changes.push(recordChange(`dstview:${view.id}`, views.find(v => v.id === view.id) ?? null, view));
+      }
+      setViews(prev => [
+        ...prev.map(v => changed.find(c => c.id === v.id) || v),
+        ...changed.filter(c => !prev.some(v => v.id === c.id))
+      ]);
+      return changes;
+    } else {
+      const current = viewerViewsStorage.get();
+      const updated = [
+        ...current.map(v => changed.find(c => c.id === v.id) || v),
+        ...changed.filter(c => !current.some(v => v.id === c.id))
+      ];
+      if (!viewerViewsStorage.set(updated)) {
+        throw new Error('Failed to save private views');
+      }
+      setViewerViews(updated);
+      return [recordChange(VIEWER_VIEWS_KEY, current, updated)];
+    }
+  };
+
+  const handleSaveView = async () => {
+    if (!viewDraft) return;
+    const trimmedName = viewDraft.name.trim();
+    const scopeViews = viewDraft.scope === 'shared' ? views : viewerViews;
+
+    if (!trimmedName) {
+      alert('View name is required!');
+      return;
+    }
+
+    if (scopeViews.some(v => v.id !== viewDraft.id && v.name.toLowerCase() === trimmedName.toLowerCase())) {
+      alert('A view with this name already exists!');
+      return;
+    }
+
+    const existing = scopeViews.find(v => v.id === viewDraft.id);
+    const view = existing
+      ? { ...existing, name: trimmedName }
+      : { id: nextViewId(scopeViews), name: trimmedName, filter, search: searchQuery.trim() };
+
+    try {
+      await saveViewChanges([view], viewDraft.scope);
+      setViewDraft(null);
+    } catch (error) {
+      console.error('Error saving view:', error);
+      alert('Failed to save view. Please try again.');
+    }
+  };
+
+  const updateViewToCurrent = async (view: SavedView, scope: 'shared' | 'private') => {
+    try {
+      await saveViewChanges([{ ...view, filter, search: searchQuery.trim() }], scope);
+    } catch (error) {
+      console.error('Error updating view:', error);
+      alert('Failed to update view. Please try again.');
+    }
+  };
+
+  const handleDeleteView = (view: SavedView, scope: 'shared' | 'private') => {
+    setViewDeleteScope(scope);
+    setDeleteConfirm({ show: true, type: 'view', item: view, deleting: false, error: null });
+  };
+
+  const executeDeleteView = async (view: SavedView) => {
+    setDeleteConfirm(prev => ({ ...prev, deleting: true, error: null }));
+
+    try {
+      if (viewDeleteScope === 'shared') {
+        const result = await storage.delete(`dstview:${view.id}`);
+        if (!result) {
+          throw new Error('Failed to save changes to storage');
+        }
+        setViews(prev => prev.filter(v => v.id !== view.id));
+      } else {
+        const updated = viewerViews.filter(v => v.id !== view.id);
+        if (!viewerViewsStorage.set(updated)) {
+          throw new Error('Failed to save changes to storage');
+        }
+        setViewerViews(updated);
+      }
+
+      setDeleteConfirm({ show: false, type: null, item: null, deleting: false, error: null });
+    } catch (error) {
+      console.error('Error deleting view:', error);
+      setDeleteConfirm(prev => ({ ...prev, deleting: false, error: `Failed to delete view: ${(error as Error).message}` }));
+    }
+  };
+
+  const toggleFavorite = async (cmd, e) => {
+    e.stopPropagation();
 
     if (isAdminMode) {
       // Admin mode: save to main storage
@@ -673,6 +2357,10 @@ export default function DSTCommandManager() {
         const updatedCommand = { ...cmd, favorite: !cmd.favorite };
         await storage.set(`dst:${cmd.id}`, JSON.stringify(updatedCommand));
         setCommands(commands.map(c => c.id === cmd.id ? updatedCommand : c));
+        recordHistory(
+          updatedCommand.favorite ? `Starred "${cmd.name}"` : `Unstarred "${cmd.name}"`,
+          [recordChange(`dst:${cmd.id}`, cmd, updatedCommand)]
+        );
 
         starElement.title = 'Saved!';
         setTimeout(() => {
@@ -684,8 +2372,153 @@ export default function DSTCommandManager() {
       }
     } else {
       // Viewer mode: save to browser localStorage separately
+      const previousFavorites = viewerFavoritesStorage.get();
       const newViewerFavorites = viewerFavoritesStorage.toggle(cmd.id);
       setViewerFavorites(newViewerFavorites);
+      recordHistory(
+        newViewerFavorites[cmd.id] ? `Starred "${cmd.name}"` : `Unstarred "${cmd.name}"`,
+        [recordChange(VIEWER_FAVORITES_KEY, previousFavorites, newViewerFavorites)]
+      );
+    }
+  };
+
+  // Library export/import
+  const handleExport = async () => {
+    // Stored images are embedded so the file is self-contained
+    const exportCommands = await embedStoredImages(commands);
+    const doc = buildLibraryExport(exportCommands, tags, categories, macros, viewerFavoritesStorage.get());
+    const blob = new Blob([JSON.stringify(doc, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `dst-commands-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    // Revoking right away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  // Merges a parsed document into the library and persists what was added
+  const applyLibraryImport = async (doc: Record<string, unknown>): Promise<ImportReport> => {
+    const result = mergeLibraryImport(doc, {
+      commands,
+      tags,
+      categories,
+      macros,
+      viewerFavorites: viewerFavoritesStorage.get(),
+      reservedCommandId: maxCommandId(commands, trash)
+    });
+
+    // Embedded images go to the image store rather than the library blob
+    const extracted = await extractInlineImages(result.addedCommands);
+    const withStoredImages = (list: Command[]) => list.map(cmd => extracted.find(c => c.id === cmd.id) || cmd);
+    result.addedCommands = withStoredImages(result.addedCommands);
+    result.commands = withStoredImages(result.commands);
+
+    for (const tag of result.addedTags) {
+      await storage.set(`dsttag:${tag.id}`, JSON.stringify(tag));
+    }
+    for (const category of result.addedCategories) {
+      await storage.set(`dstcat:${category.id}`, JSON.stringify(category));
+    }
+    for (const cmd of result.addedCommands) {
+      const saved = await storage.set(`dst:${cmd.id}`, JSON.stringify(cmd));
+      if (!saved) {
+        throw new Error(`Failed to save "${cmd.name}" to storage`);
+      }
+    }
+    for (const macro of result.addedMacros) {
+      await storage.set(`dstmacro:${macro.id}`, JSON.stringify(macro));
+    }
+    viewerFavoritesStorage.set(result.viewerFavorites);
+
+    setTags(result.tags);
+    setCategories(result.categories);
+    setCommands(result.commands);
+    setMacros(result.macros);
+    setSyntaxErrors(prev => ({ ...prev, ...validateCommands(result.addedCommands) }));
+    setUnknownPrefabs(prev => ({ ...prev, ...findUnknownPrefabsInCommands(result.addedCommands) }));
+    setViewerFavorites(result.viewerFavorites);
+    return result.report;
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so selecting the same file again still triggers onChange
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const report = await applyLibraryImport(parseLibraryDocument(await file.text()));
+      setImportReport({ fileName: file.name, error: null, ...report });
+    } catch (error) {
+      console.error('Error importing library:', error);
+      const message = error instanceof LibraryImportError
+        ? error.message
+        : `Import failed: ${error instanceof Error ? error.message : String(error)}`;
+      setImportReport({ fileName: file.name, error: message });
+    }
+  };
+
+  // Share links
+  const updateShareSelection = async (commandIds: number[], selected: number[]) => {
+    setShareDraft({ commandIds, selected, url: null });
+    if (selected.length === 0) return;
+    try {
+      const fragment = await encodeShareFragment(commands.filter(cmd => selected.includes(cmd.id)), tags, categories);
+      const url = `${window.location.origin}${window.location.pathname}${fragment}`;
+      // Ignore the result if the selection changed while encoding
+      setShareDraft(prev => prev && prev.selected === selected ? { ...prev, url } : prev);
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      alert('Failed to create share link');
+    }
+  };
+
+  const copyShareLink = async () => {
+    if (!shareDraft?.url) return;
+    try {
+      await navigator.clipboard.writeText(shareDraft.url);
+      showToast(`Share link for ${shareDraft.selected.length} command${shareDraft.selected.length === 1 ? '' : 's'} copied`, false);
+      setShareDraft(null);
+    } catch (error) {
+      console.error('Failed to copy:', error);
+      alert('Failed to copy to clipboard');
+    }
+  };
+
+  // Opening a share link shows a preview once the library has loaded
+  useEffect(() => {
+    if (loading) return;
+    const openShareLink = async () => {
+      const hash = window.location.hash;
+      if (!isShareFragment(hash)) return;
+      // Drop the fragment so reloading does not offer the import again
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      try {
+        setSharePreview({ error: null, doc: await decodeShareFragment(hash) });
+      } catch (error) {
+        console.error('Error opening share link:', error);
+        setSharePreview({
+          error: error instanceof LibraryImportError ? error.message : 'This share link could not be opened.',
+          doc: null
+        });
+      }
+    };
+    openShareLink();
+    window.addEventListener('hashchange', openShareLink);
+    return () => window.removeEventListener('hashchange', openShareLink);
+  }, [loading]);
+
+  const handleShareImport = async () => {
+    if (!sharePreview?.doc) return;
+    try {
+      const report = await applyLibraryImport(sharePreview.doc);
+      setSharePreview(null);
+      setImportReport({ fileName: 'Share link', error: null, ...report });
+    } catch (error) {
+      console.error('Error importing share link:', error);
+      setSharePreview(null);
+      setImportReport({ fileName: 'Share link', error: `Import failed: ${error instanceof Error ? error.message : String(error)}` });
     }
   };
 
@@ -699,22 +2532,42 @@ export default function DSTCommandManager() {
     }
   };
 
-  // Get favorites count based on mode
-  const getFavoritesCount = () => {
-    if (isAdminMode) {
-      return commands.filter(cmd => cmd.favorite).length;
-    } else {
-      return commands.filter(cmd => viewerFavorites[cmd.id] || cmd.favorite).length;
-    }
+  const filterContext = {
+    isFavorited,
+    hasImage: (cmd: Command) => Boolean(cmd.image || autoFetchedImages[cmd.id]) && !imageErrors[cmd.id]
   };
 
-  const filteredCommands = activeTag === 'all'
-    ? commands
-    : activeTag === 'favorites'
-      ? commands.filter(cmd => isFavorited(cmd))
-      : CATEGORIES.find(cat => cat.id === activeTag)
-        ? commands.filter(cmd => cmd.category === activeTag)
-        : commands.filter(cmd => cmd.tags && cmd.tags.includes(activeTag));
+  // Button counts show how many commands would match with that facet switched on
+  const countWith = (nextFilter: CommandFilter) => applyFilter(commands, nextFilter, filterContext).length;
+
+  const facetFilteredCommands = applyFilter(commands, filter, filterContext);
+
+  // Search narrows the active filter further and ranks what is left
+  const searchResults = searchQuery.trim() ? searchCommands(facetFilteredCommands, searchQuery, categories) : null;
+  const filteredCommands = searchResults ? searchResults.map(result => result.command) : facetFilteredCommands;
+  const searchMatches = new Map(searchResults ? searchResults.map(result => [result.command.id, result.match]) : []);
+
+  // Macros have no tags or category, so they only show while no filter is active
+  const searchTerms = searchQuery.trim().split(/\s+/).filter(Boolean);
+  const visibleMacros = isFilterEmpty(filter)
+    ? macros.filter(macro => searchTerms.every(term => fuzzyMatch(term, macro.name)))
+    : [];
+
+  // Dry run of the share import, for the preview
+  const sharePreviewResult = sharePreview?.doc
+    ? mergeLibraryImport(sharePreview.doc, { commands, tags, categories, macros, viewerFavorites, reservedCommandId: maxCommandId(commands, trash) })
+    : null;
+  const sharedCommands = sharePreview?.doc
+    ? (sharePreview.doc.commands as unknown[]).map(validateCommand).filter((cmd): cmd is Command => typeof cmd !== 'string')
+    : [];
+
+  const editorSyntaxError = showCommandEditor && editCommand.trim() ? validateLua(editCommand) : null;
+  const editorSyntaxLine = editorSyntaxError ? editCommand.split('\n')[editorSyntaxError.line - 1] ?? '' : '';
+  const editorUnknownPrefabs = showCommandEditor ? findUnknownPrefabs(editCommand) : [];
+  const prefabSuggestions = prefabCompletion ? searchPrefabs(prefabCompletion.partial) : [];
+
+  // The header meter shows whichever quota is closer to full
+  const storageMeterPercentage = storageUsage ? Math.max(storageUsage.percentage, originPercentage(imageStoreUsage) ?? 0) : 0;
 
   if (loading) {
     return (
@@ -730,49 +2583,656 @@ export default function DSTCommandManager() {
         <div className="flex justify-between items-center mb-8">
           <h1 className="text-xl font-bold text-white">▬</h1>
           <div className="flex gap-3 items-center">
-            {/* Admin/Viewer Mode Toggle */}
+            {/* Admin/Viewer Mode Toggle, hidden on viewer-only deployments */}
+            {!VIEWER_ONLY && (
+              <button
+                onClick={() => isAdminMode ? lockAdminMode() : openAdminAuth('unlock')}
+                className={`px-4 py-3 rounded-lg flex items-center gap-2 transition-colors shadow-lg cursor-pointer ${isAdminMode
+                  ? 'bg-amber-600 hover:bg-amber-700 text-white'
+                  : 'bg-slate-600 hover:bg-slate-700 text-white'
+                  }`}
+                title={isAdminMode ? 'Switch to Viewer Mode' : 'Switch to Admin Mode'}
+              >
+                {isAdminMode ? <Shield size={20} /> : <Eye size={20} />}
+                {isAdminMode ? 'Admin' : 'Viewer'}
+              </button>
+            )}
+
             <button
-              onClick={() => setIsAdminMode(!isAdminMode)}
-              className={`px-4 py-3 rounded-lg flex items-center gap-2 transition-colors shadow-lg cursor-pointer ${isAdminMode
-                ? 'bg-amber-600 hover:bg-amber-700 text-white'
-                : 'bg-slate-600 hover:bg-slate-700 text-white'
-                }`}
-              title={isAdminMode ? 'Switch to Viewer Mode' : 'Switch to Admin Mode'}
+              onClick={() => setShowViewManager(!showViewManager)}
+              className="bg-slate-600 hover:bg-slate-700 text-white px-6 py-3 rounded-lg flex items-center gap-2 transition-colors shadow-lg cursor-pointer"
             >
-              {isAdminMode ? <Shield size={20} /> : <Eye size={20} />}
-              {isAdminMode ? 'Admin' : 'Viewer'}
+              <Bookmark size={20} />
+              Views
             </button>
 
-            {/* Admin-only buttons */}
-            {isAdminMode && (
-              <>
+            {/* Admin-only buttons */}
+            {isAdminMode && (
+              <>
+                <button
+                  onClick={() => openAdminAuth('change')}
+                  className="bg-slate-600 hover:bg-slate-700 text-white px-4 py-3 rounded-lg flex items-center gap-2 transition-colors shadow-lg cursor-pointer"
+                  title="Change admin passphrase"
+                >
+                  <KeyRound size={20} />
+                </button>
+                <button
+                  onClick={() => setShowTagManager(!showTagManager)}
+                  className="bg-slate-600 hover:bg-slate-700 text-white px-6 py-3 rounded-lg flex items-center gap-2 transition-colors shadow-lg cursor-pointer"
+                >
+                  <Tag size={20} />
+                  Tags
+                </button>
+                <button
+                  onClick={() => setShowCategoryManager(!showCategoryManager)}
+                  className="bg-slate-600 hover:bg-slate-700 text-white px-6 py-3 rounded-lg flex items-center gap-2 transition-colors shadow-lg cursor-pointer"
+                >
+                  <FolderOpen size={20} />
+                  Categories
+                </button>
+                <button
+                  onClick={() => setShowTrash(!showTrash)}
+                  className="bg-slate-600 hover:bg-slate-700 text-white px-6 py-3 rounded-lg flex items-center gap-2 transition-colors shadow-lg cursor-pointer"
+                >
+                  <Trash2 size={20} />
+                  Trash{trash.length > 0 ? ` (${trash.length})` : ''}
+                </button>
+                <button
+                  onClick={() => (showImageCache ? closeImageCache() : openImageCache())}
+                  className="bg-slate-600 hover:bg-slate-700 text-white px-6 py-3 rounded-lg flex items-center gap-2 transition-colors shadow-lg cursor-pointer"
+                  title="Manage cached wiki images"
+                >
+                  <Images size={20} />
+                  Image Cache
+                </button>
+                <button
+                  onClick={() => openStoragePanel()}
+                  className="bg-slate-600 hover:bg-slate-700 text-white px-6 py-3 rounded-lg flex items-center gap-2 transition-colors shadow-lg cursor-pointer"
+                  title="Storage usage"
+                >
+                  <Database size={20} />
+                  Storage
+                  {storageUsage && (
+                    <>
+                      <span className="w-16 bg-slate-800 rounded-full h-2 overflow-hidden">
+                        <span
+                          className={`block h-2 ${storageMeterColor(storageMeterPercentage)}`}
+                          style={{ width: `${Math.min(100, storageMeterPercentage)}%` }}
+                        />
+                      </span>
+                      <span className="text-sm">{storageMeterPercentage}%</span>
+                    </>
+                  )}
+                </button>
+                <button
+                  onClick={handleExport}
+                  className="bg-slate-600 hover:bg-slate-700 text-white px-6 py-3 rounded-lg flex items-center gap-2 transition-colors shadow-lg cursor-pointer"
+                  title="Export library as JSON"
+                >
+                  <Download size={20} />
+                  Export
+                </button>
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  className="bg-slate-600 hover:bg-slate-700 text-white px-6 py-3 rounded-lg flex items-center gap-2 transition-colors shadow-lg cursor-pointer"
+                  title="Import library from JSON"
+                >
+                  <Upload size={20} />
+                  Import
+                </button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  onChange={handleImportFile}
+                  className="hidden"
+                />
+                <button
+                  onClick={() => setMacroDraft({ id: null, name: '', commandIds: [] })}
+                  className="bg-purple-600 hover:bg-purple-700 text-white px-6 py-3 rounded-lg flex items-center gap-2 transition-colors shadow-lg cursor-pointer"
+                >
+                  <Layers size={20} />
+                  Macro
+                </button>
+                <button
+                  onClick={addNewCommand}
+                  className="bg-green-600 hover:bg-green-700 text-white px-6 py-3 rounded-lg flex items-center gap-2 transition-colors shadow-lg cursor-pointer"
+                >
+                  <Plus size={20} />
+                  Command
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+
+        {/* Tag Manager Modal */}
+        {showTagManager && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-2xl max-w-2xl w-full max-h-[80vh] overflow-y-auto">
+              <div className="p-6 border-b border-gray-200 flex justify-between items-center sticky top-0 bg-white">
+                <h2 className="text-2xl font-bold text-gray-800">Manage Tags</h2>
+                <button
+                  onClick={() => setShowTagManager(false)}
+                  className="text-gray-500 hover:text-gray-700"
+                >
+                  <X size={24} />
+                </button>
+              </div>
+              <div className="p-6">
+                <button
+                  onClick={addNewTag}
+                  className="w-full bg-green-600 hover:bg-green-700 text-white px-4 py-3 rounded-lg flex items-center justify-center gap-2 transition-colors mb-4"
+                >
+                  <Plus size={20} />
+                  Add New Tag
+                </button>
+                <div className="space-y-3">
+                  {tags.map(tag => (
+                    <div key={tag.id} className="bg-gray-50 rounded-lg p-4">
+                      {editingTagId === tag.id ? (
+                        <div className="space-y-3">
+                          <input
+                            type="text"
+                            value={editTagName}
+                            onChange={(e) => setEditTagName(e.target.value)}
+                            placeholder="Tag name"
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                          <div className="flex items-center gap-3">
+                            <label className="text-sm font-medium text-gray-700">Color:</label>
+                            <input
+                              type="color"
+                              value={editTagColor}
+                              onChange={(e) => setEditTagColor(e.target.value)}
+                              className="w-16 h-10 rounded cursor-pointer"
+                            />
+                            <div
+                              className="flex-1 px-3 py-2 rounded text-white text-center font-medium"
+                              style={{ backgroundColor: editTagColor }}
+                            >
+                              Preview
+                            </div>
+                          </div>
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => handleSaveTag(tag.id)}
+                              className="flex-1 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-md flex items-center justify-center gap-2 transition-colors"
+                            >
+                              <Save size={16} />
+                              Save
+                            </button>
+                            <button
+                              onClick={() => handleCancelTag(tag.id)}
+                              className="flex-1 bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-md flex items-center justify-center gap-2 transition-colors"
+                            >
+                              <X size={16} />
+                              Cancel
+                            </button>
+                          </div>
+                        </div>
+                      ) : (
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-3">
+                            <span
+                              className="px-4 py-2 rounded-full text-white font-medium"
+                              style={{ backgroundColor: tag.color }}
+                            >
+                              {tag.name}
+                            </span>
+                            <span className="text-sm text-gray-500">
+                              ({commands.filter(cmd => cmd.tags && cmd.tags.includes(tag.name)).length} commands)
+                            </span>
+                          </div>
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => handleEditTag(tag)}
+                              className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded-md flex items-center gap-2 transition-colors"
+                            >
+                              <Edit2 size={16} />
+                              Edit
+                            </button>
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                e.preventDefault();
+                                console.log('Tag delete button clicked');
+                                handleDeleteTag(tag.id, e);
+                              }}
+                              className="bg-red-600 hover:bg-red-700 text-white px-3 py-2 rounded-md flex items-center gap-2 transition-colors"
+                            >
+                              <Trash2 size={16} />
+                              Delete
+                            </button>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* View Manager Modal */}
+        {showViewManager && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-2xl max-w-2xl w-full max-h-[80vh] overflow-y-auto">
+              <div className="p-6 border-b border-gray-200 flex justify-between items-center sticky top-0 bg-white">
+                <h2 className="text-2xl font-bold text-gray-800">Saved Views</h2>
+                <button
+                  onClick={() => setShowViewManager(false)}
+                  className="text-gray-500 hover:text-gray-700"
+                >
+                  <X size={24} />
+                </button>
+              </div>
+              <div className="p-6 space-y-6">
+                <button
+                  onClick={() => setViewDraft({ scope: isAdminMode ? 'shared' : 'private', id: null, name: '' })}
+                  className="w-full bg-green-600 hover:bg-green-700 text-white px-4 py-3 rounded-lg flex items-center justify-center gap-2 transition-colors"
+                >
+                  <Plus size={20} />
+                  Save Current Filters as View
+                </button>
+                {([
+                  ['shared', 'Shared views', views, isAdminMode],
+                  ['private', 'My views', viewerViews, true]
+                ] as const).map(([scope, title, scopeViews, editable]) => (
+                  <div key={scope}>
+                    <h3 className="text-sm font-semibold text-gray-500 uppercase mb-2">{title}</h3>
+                    {scopeViews.length === 0 ? (
+                      <p className="text-sm text-gray-400">No views yet.</p>
+                    ) : (
+                      <div className="space-y-3">
+                        {scopeViews.map(view => (
+                          <div key={view.id} className="bg-gray-50 rounded-lg p-4 flex items-center justify-between gap-3">
+                            <button
+                              onClick={() => { applyView(view); setShowViewManager(false); }}
+                              className="flex items-center gap-2 text-gray-800 font-medium hover:text-blue-600 text-left"
+                              title="Apply view"
+                            >
+                              <Bookmark size={16} />
+                              {view.name}
+                            </button>
+                            {editable && (
+                              <div className="flex gap-2 flex-shrink-0">
+                                <button
+                                  onClick={() => updateViewToCurrent(view, scope)}
+                                  className="bg-slate-600 hover:bg-slate-700 text-white px-3 py-2 rounded-md flex items-center gap-2 transition-colors text-sm"
+                                  title="Replace this view's filters with the current ones"
+                                >
+                                  <Save size={16} />
+                                  Update
+                                </button>
+                                <button
+                                  onClick={() => setViewDraft({ scope, id: view.id, name: view.name })}
+                                  className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded-md flex items-center gap-2 transition-colors text-sm"
+                                >
+                                  <Edit2 size={16} />
+                                  Rename
+                                </button>
+                                <button
+                                  onClick={() => handleDeleteView(view, scope)}
+                                  className="bg-red-600 hover:bg-red-700 text-white px-3 py-2 rounded-md flex items-center gap-2 transition-colors text-sm"
+                                >
+                                  <Trash2 size={16} />
+                                  Delete
+                                </button>
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Save View Modal */}
+        {/* Share Modal */}
+        {shareDraft && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-2xl max-w-2xl w-full max-h-[80vh] overflow-y-auto">
+              <div className="p-6 border-b border-gray-200 flex justify-between items-center sticky top-0 bg-white">
+                <h2 className="text-2xl font-bold text-gray-800">Share Commands</h2>
+                <button
+                  onClick={() => setShareDraft(null)}
+                  className="text-gray-500 hover:text-gray-700"
+                >
+                  <X size={24} />
+                </button>
+              </div>
+              <div className="p-6 space-y-4">
+                <p className="text-sm text-gray-600">
+                  The link carries the selected commands with their tags and categories. Uploaded images are not included.
+                </p>
+                <div className="flex gap-3 text-sm">
+                  <button
+                    onClick={() => updateShareSelection(shareDraft.commandIds, shareDraft.commandIds)}
+                    className="text-blue-600 hover:underline"
+                  >
+                    Select all
+                  </button>
+                  <button
+                    onClick={() => updateShareSelection(shareDraft.commandIds, [])}
+                    className="text-blue-600 hover:underline"
+                  >
+                    Select none
+                  </button>
+                </div>
+                <ul className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+                  {commands.filter(cmd => shareDraft.commandIds.includes(cmd.id)).map(cmd => (
+                    <li key={cmd.id}>
+                      <label className="flex items-center gap-3 px-4 py-2 text-gray-800 cursor-pointer hover:bg-gray-50">
+                        <input
+                          type="checkbox"
+                          checked={shareDraft.selected.includes(cmd.id)}
+                          onChange={(e) => updateShareSelection(
+                            shareDraft.commandIds,
+                            e.target.checked
+                              ? shareDraft.commandIds.filter(id => id === cmd.id || shareDraft.selected.includes(id))
+                              : shareDraft.selected.filter(id => id !== cmd.id)
+                          )}
+                        />
+                        {cmd.name}
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+                {shareDraft.url && (
+                  <>
+                    <input
+                      type="text"
+                      readOnly
+                      value={shareDraft.url}
+                      onFocus={(e) => e.target.select()}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-600 text-xs font-mono"
+                    />
+                    {shareDraft.url.length > SHARE_URL_WARNING_LENGTH && (
+                      <p className="text-sm text-amber-700 flex items-center gap-2">
+                        <AlertTriangle size={16} />
+                        This link is {shareDraft.url.length.toLocaleString()} characters long and may be cut off by some apps. Consider sharing fewer commands.
+                      </p>
+                    )}
+                  </>
+                )}
+              </div>
+              <div className="p-6 bg-gray-50 flex gap-3">
+                <button
+                  onClick={() => setShareDraft(null)}
+                  className="flex-1 bg-gray-200 hover:bg-gray-300 text-gray-800 px-4 py-3 rounded-lg font-medium transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={copyShareLink}
+                  disabled={!shareDraft.url}
+                  className="flex-1 bg-blue-600 hover:bg-blue-700 text-white px-4 py-3 rounded-lg font-medium transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+                >
+                  <Share2 size={18} />
+                  Copy link ({shareDraft.selected.length})
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Share Link Import Preview */}
+        {sharePreview && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-2xl max-w-2xl w-full max-h-[80vh] overflow-y-auto">
+              <div className="p-6 border-b border-gray-200 flex justify-between items-center sticky top-0 bg-white">
+                <h2 className="text-2xl font-bold text-gray-800">Shared Commands</h2>
+                <button
+                  onClick={() => setSharePreview(null)}
+                  className="text-gray-500 hover:text-gray-700"
+                >
+                  <X size={24} />
+                </button>
+              </div>
+              <div className="p-6 space-y-4">
+                {sharePreview.error !== null || !sharePreviewResult ? (
+                  <div className="p-3 bg-red-100 border border-red-300 rounded-lg text-red-700 text-sm">
+                    {sharePreview.error}
+                  </div>
+                ) : (
+                  <>
+                    <p className="text-sm text-gray-600">
+                      Someone shared these commands with you. {sharePreviewResult.report.commands.added} of them are new to your library.
+                    </p>
+                    <ul className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+                      {sharedCommands.map(cmd => {
+                        const isNew = sharePreviewResult.addedCommands.some(added => added.name === cmd.name && added.command === cmd.command);
+                        return (
+                          <li key={cmd.id} className="px-4 py-3">
+                            <div className="flex items-center justify-between gap-3">
+                              <span className="font-medium text-gray-800">{cmd.name}</span>
+                              <span className={`text-xs px-2 py-0.5 rounded-full ${isNew ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-500'}`}>
+                                {isNew ? 'New' : 'Already in library'}
+                              </span>
+                            </div>
+                            <pre className="mt-1 text-xs text-gray-600 font-mono whitespace-pre-wrap break-all line-clamp-3">{cmd.command}</pre>
+                            {cmd.tags.length > 0 && (
+                              <div className="mt-1 text-xs text-gray-500">Tags: {cmd.tags.join(', ')}</div>
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                    {(sharePreviewResult.addedTags.length > 0 || sharePreviewResult.addedCategories.length > 0) && (
+                      <p className="text-sm text-gray-600">
+                        Also adds
+                        {sharePreviewResult.addedTags.length > 0 && ` tags: ${sharePreviewResult.addedTags.map(tag => tag.name).join(', ')}`}
+                        {sharePreviewResult.addedTags.length > 0 && sharePreviewResult.addedCategories.length > 0 && ';'}
+                        {sharePreviewResult.addedCategories.length > 0 && ` categories: ${sharePreviewResult.addedCategories.map(category => category.name).join(', ')}`}
+                      </p>
+                    )}
+                    {sharePreviewResult.report.errors.length > 0 && (
+                      <ul className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 text-xs space-y-1">
+                        {sharePreviewResult.report.errors.map((message, index) => (
+                          <li key={index}>{message}</li>
+                        ))}
+                      </ul>
+                    )}
+                    {!isAdminMode && (
+                      <p className="text-sm text-amber-700">
+                        {VIEWER_ONLY ? 'This library is read-only, so shared commands cannot be added here.' : 'Adding commands requires admin mode.'}
+                      </p>
+                    )}
+                  </>
+                )}
+              </div>
+              <div className="p-6 bg-gray-50 flex gap-3">
+                <button
+                  onClick={() => setSharePreview(null)}
+                  className="flex-1 bg-gray-200 hover:bg-gray-300 text-gray-800 px-4 py-3 rounded-lg font-medium transition-colors"
+                >
+                  {sharePreview.error !== null ? 'Close' : 'Dismiss'}
+                </button>
+                {sharePreviewResult && isAdminMode && (
+                  <button
+                    onClick={handleShareImport}
+                    disabled={sharePreviewResult.report.commands.added === 0}
+                    className="flex-1 bg-green-600 hover:bg-green-700 text-white px-4 py-3 rounded-lg font-medium transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+                  >
+                    <Download size={18} />
+                    Add {sharePreviewResult.report.commands.added} to library
+                  </button>
+                )}
+                {sharePreviewResult && !isAdminMode && !VIEWER_ONLY && (
+                  <button
+                    onClick={() => openAdminAuth('unlock')}
+                    className="flex-1 bg-amber-600 hover:bg-amber-700 text-white px-4 py-3 rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
+                  >
+                    <Shield size={18} />
+                    Unlock admin mode
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Admin Passphrase Modal */}
+        {adminAuth && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-2xl max-w-md w-full overflow-hidden">
+              <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+                <h2 className="text-xl font-bold text-gray-800">
+                  {adminAuth.mode === 'create' ? 'Set Admin Passphrase' : adminAuth.mode === 'change' ? 'Change Admin Passphrase' : 'Unlock Admin Mode'}
+                </h2>
                 <button
-                  onClick={() => setShowTagManager(!showTagManager)}
-                  className="bg-slate-600 hover:bg-slate-700 text-white px-6 py-3 rounded-lg flex items-center gap-2 transition-colors shadow-lg cursor-pointer"
+                  onClick={() => setAdminAuth(null)}
+                  className="text-gray-500 hover:text-gray-700"
                 >
-                  <Tag size={20} />
-                  Tags
+                  <X size={24} />
+                </button>
+              </div>
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  submitAdminAuth();
+                }}
+              >
+                <div className="p-6 space-y-4">
+                  {adminAuth.mode === 'create' && (
+                    <p className="text-sm text-gray-600">
+                      No passphrase has been set yet. Choose one now; it will be required to enter admin mode from then on.
+                    </p>
+                  )}
+                  {adminAuth.mode === 'change' && (
+                    <input
+                      type="password"
+                      value={adminAuth.current}
+                      onChange={(e) => setAdminAuth({ ...adminAuth, current: e.target.value })}
+                      placeholder="Current passphrase"
+                      autoComplete="current-password"
+                      autoFocus
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  )}
+                  <input
+                    type="password"
+                    value={adminAuth.passphrase}
+                    onChange={(e) => setAdminAuth({ ...adminAuth, passphrase: e.target.value })}
+                    placeholder={adminAuth.mode === 'unlock' ? 'Passphrase' : 'New passphrase'}
+                    autoComplete={adminAuth.mode === 'unlock' ? 'current-password' : 'new-password'}
+                    autoFocus={adminAuth.mode !== 'change'}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  {adminAuth.mode !== 'unlock' && (
+                    <input
+                      type="password"
+                      value={adminAuth.confirmation}
+                      onChange={(e) => setAdminAuth({ ...adminAuth, confirmation: e.target.value })}
+                      placeholder="Repeat new passphrase"
+                      autoComplete="new-password"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  )}
+                  {adminAuth.error && (
+                    <p className="text-sm text-red-600">{adminAuth.error}</p>
+                  )}
+                </div>
+                <div className="p-6 bg-gray-50 flex gap-3">
+                  <button
+                    type="button"
+                    onClick={() => setAdminAuth(null)}
+                    className="flex-1 bg-gray-200 hover:bg-gray-300 text-gray-800 px-4 py-3 rounded-lg font-medium transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={adminAuth.busy}
+                    className="flex-1 bg-amber-600 hover:bg-amber-700 text-white px-4 py-3 rounded-lg font-medium transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+                  >
+                    <KeyRound size={18} />
+                    {adminAuth.mode === 'unlock' ? 'Unlock' : 'Save'}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        )}
+
+        {viewDraft && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-2xl max-w-md w-full overflow-hidden">
+              <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+                <h2 className="text-xl font-bold text-gray-800">
+                  {viewDraft.id === null ? 'Save View' : 'Rename View'}
+                </h2>
+                <button
+                  onClick={() => setViewDraft(null)}
+                  className="text-gray-500 hover:text-gray-700"
+                >
+                  <X size={24} />
                 </button>
+              </div>
+              <div className="p-6 space-y-4">
+                <input
+                  type="text"
+                  value={viewDraft.name}
+                  onChange={(e) => setViewDraft({ ...viewDraft, name: e.target.value })}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSaveView()}
+                  placeholder="View name"
+                  autoFocus
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                {isAdminMode && viewDraft.id === null && (
+                  <div className="flex gap-4 text-sm text-gray-700">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        checked={viewDraft.scope === 'shared'}
+                        onChange={() => setViewDraft({ ...viewDraft, scope: 'shared' })}
+                      />
+                      Shared with everyone
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        checked={viewDraft.scope === 'private'}
+                        onChange={() => setViewDraft({ ...viewDraft, scope: 'private' })}
+                      />
+                      Only in this browser
+                    </label>
+                  </div>
+                )}
+              </div>
+              <div className="p-6 bg-gray-50 flex gap-3">
                 <button
-                  onClick={addNewCommand}
-                  className="bg-green-600 hover:bg-green-700 text-white px-6 py-3 rounded-lg flex items-center gap-2 transition-colors shadow-lg cursor-pointer"
+                  onClick={() => setViewDraft(null)}
+                  className="flex-1 bg-gray-200 hover:bg-gray-300 text-gray-800 px-4 py-3 rounded-lg font-medium transition-colors"
                 >
-                  <Plus size={20} />
-                  Command
+                  Cancel
                 </button>
-              </>
-            )}
+                <button
+                  onClick={handleSaveView}
+                  className="flex-1 bg-green-600 hover:bg-green-700 text-white px-4 py-3 rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
+                >
+                  <Save size={18} />
+                  Save
+                </button>
+              </div>
+            </div>
           </div>
-        </div>
+        )}
 
-        {/* Tag Manager Modal */}
-        {showTagManager && (
+        {/* Category Manager Modal */}
+        {showCategoryManager && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
             <div className="bg-white rounded-lg shadow-2xl max-w-2xl w-full max-h-[80vh] overflow-y-auto">
               <div className="p-6 border-b border-gray-200 flex justify-between items-center sticky top-0 bg-white">
-                <h2 className="text-2xl font-bold text-gray-800">Manage Tags</h2>
+                <h2 className="text-2xl font-bold text-gray-800">Manage Categories</h2>
                 <button
-                  onClick={() => setShowTagManager(false)}
+                  onClick={() => setShowCategoryManager(false)}
                   className="text-gray-500 hover:text-gray-700"
                 >
                   <X size={24} />
@@ -780,49 +3240,49 @@ export default function DSTCommandManager() {
               </div>
               <div className="p-6">
                 <button
-                  onClick={addNewTag}
+                  onClick={addNewCategory}
                   className="w-full bg-green-600 hover:bg-green-700 text-white px-4 py-3 rounded-lg flex items-center justify-center gap-2 transition-colors mb-4"
                 >
                   <Plus size={20} />
-                  Add New Tag
+                  Add New Category
                 </button>
                 <div className="space-y-3">
-                  {tags.map(tag => (
-                    <div key={tag.id} className="bg-gray-50 rounded-lg p-4">
-                      {editingTagId === tag.id ? (
+                  {categories.map((category, index) => (
+                    <div key={category.id} className="bg-gray-50 rounded-lg p-4">
+                      {editingCategoryId === category.id ? (
                         <div className="space-y-3">
                           <input
                             type="text"
-                            value={editTagName}
-                            onChange={(e) => setEditTagName(e.target.value)}
-                            placeholder="Tag name"
+                            value={editCategoryName}
+                            onChange={(e) => setEditCategoryName(e.target.value)}
+                            placeholder="Category name"
                             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                           />
                           <div className="flex items-center gap-3">
                             <label className="text-sm font-medium text-gray-700">Color:</label>
                             <input
                               type="color"
-                              value={editTagColor}
-                              onChange={(e) => setEditTagColor(e.target.value)}
+                              value={editCategoryColor}
+                              onChange={(e) => setEditCategoryColor(e.target.value)}
                               className="w-16 h-10 rounded cursor-pointer"
                             />
                             <div
                               className="flex-1 px-3 py-2 rounded text-white text-center font-medium"
-                              style={{ backgroundColor: editTagColor }}
+                              style={{ backgroundColor: editCategoryColor }}
                             >
                               Preview
                             </div>
                           </div>
                           <div className="flex gap-2">
                             <button
-                              onClick={() => handleSaveTag(tag.id)}
+                              onClick={() => handleSaveCategory(category.id)}
                               className="flex-1 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-md flex items-center justify-center gap-2 transition-colors"
                             >
                               <Save size={16} />
                               Save
                             </button>
                             <button
-                              onClick={() => handleCancelTag(tag.id)}
+                              onClick={() => handleCancelCategory(category.id)}
                               className="flex-1 bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-md flex items-center justify-center gap-2 transition-colors"
                             >
                               <X size={16} />
@@ -833,31 +3293,44 @@ export default function DSTCommandManager() {
                       ) : (
                         <div className="flex items-center justify-between">
                           <div className="flex items-center gap-3">
+                            <div className="flex flex-col">
+                              <button
+                                onClick={() => moveCategory(category.id, -1)}
+                                disabled={index === 0}
+                                className="text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                                title="Move up"
+                              >
+                                <ChevronUp size={16} />
+                              </button>
+                              <button
+                                onClick={() => moveCategory(category.id, 1)}
+                                disabled={index === categories.length - 1}
+                                className="text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                                title="Move down"
+                              >
+                                <ChevronDown size={16} />
+                              </button>
+                            </div>
                             <span
                               className="px-4 py-2 rounded-full text-white font-medium"
-                              style={{ backgroundColor: tag.color }}
+                              style={{ backgroundColor: category.color }}
                             >
-                              {tag.name}
+                              {category.name}
                             </span>
                             <span className="text-sm text-gray-500">
-                              ({commands.filter(cmd => cmd.tags && cmd.tags.includes(tag.name)).length} commands)
+                              ({commands.filter(cmd => cmd.category === category.id).length} commands)
                             </span>
                           </div>
                           <div className="flex gap-2">
                             <button
-                              onClick={() => handleEditTag(tag)}
+                              onClick={() => handleEditCategory(category)}
                               className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded-md flex items-center gap-2 transition-colors"
                             >
                               <Edit2 size={16} />
                               Edit
                             </button>
                             <button
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                e.preventDefault();
-                                console.log('Tag delete button clicked');
-                                handleDeleteTag(tag.id, e);
-                              }}
+                              onClick={(e) => handleDeleteCategory(category.id, e)}
                               className="bg-red-600 hover:bg-red-700 text-white px-3 py-2 rounded-md flex items-center gap-2 transition-colors"
                             >
                               <Trash2 size={16} />
@@ -874,6 +3347,332 @@ export default function DSTCommandManager() {
           </div>
         )}
 
+        {/* Trash Modal */}
+        {showTrash && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-2xl max-w-2xl w-full max-h-[80vh] overflow-y-auto">
+              <div className="p-6 border-b border-gray-200 flex justify-between items-center sticky top-0 bg-white">
+                <h2 className="text-2xl font-bold text-gray-800">Trash</h2>
+                <button
+                  onClick={() => setShowTrash(false)}
+                  className="text-gray-500 hover:text-gray-700"
+                >
+                  <X size={24} />
+                </button>
+              </div>
+              <div className="p-6">
+                <div className="flex items-center gap-3 mb-4 text-sm text-gray-700">
+                  <label className="font-medium">Delete items automatically after:</label>
+                  <select
+                    value={trashRetentionDays}
+                    onChange={(e) => handleRetentionChange(Number(e.target.value))}
+                    className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {RETENTION_OPTIONS.map(days => (
+                      <option key={days} value={days}>{days === 0 ? 'Never' : `${days} days`}</option>
+                    ))}
+                  </select>
+                </div>
+                {trash.length === 0 ? (
+                  <p className="text-gray-500 text-center py-8">The trash is empty.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {[...trash].sort((a, b) => b.deletedAt - a.deletedAt).map(entry => {
+                      const remaining = timeUntilPurge(entry, trashRetentionDays);
+                      return (
+                        <div key={entry.id} className="bg-gray-50 rounded-lg p-4 flex items-center justify-between gap-3">
+                          <div className="min-w-0">
+                            <div className="flex items-center gap-2">
+                              {entry.type === 'tag' ? (
+                                <span
+                                  className="px-3 py-1 rounded-full text-white text-sm font-medium"
+                                  style={{ backgroundColor: entry.record.color }}
+                                >
+                                  {entry.record.name}
+                                </span>
+                              ) : (
+                                <span className="font-medium text-gray-800">{entry.record.name}</span>
+                              )}
+                              <span className="text-xs text-gray-500 uppercase">{entry.type}</span>
+                            </div>
+                            <div className="text-xs text-gray-500 mt-1">
+                              Deleted {new Date(entry.deletedAt).toLocaleString()}
+                              {entry.type === 'tag' && ` · was on ${entry.commandIds.length} command(s)`}
+                              {remaining !== null && ` · purged in ${Math.max(1, Math.ceil(remaining / 86400000))} day(s)`}
+                            </div>
+                          </div>
+                          <div className="flex gap-2 flex-shrink-0">
+                            <button
+                              onClick={() => restoreTrashEntry(entry)}
+                              className="bg-green-600 hover:bg-green-700 text-white px-3 py-2 rounded-md flex items-center gap-2 transition-colors"
+                            >
+                              <RotateCcw size={16} />
+                              Restore
+                            </button>
+                            <button
+                              onClick={() => handlePurgeTrashEntry(entry)}
+                              className="bg-red-600 hover:bg-red-700 text-white px-3 py-2 rounded-md flex items-center gap-2 transition-colors"
+                              title="Delete permanently"
+                            >
+                              <Trash2 size={16} />
+                              Purge
+                            </button>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Image Cache Modal */}
+        {showImageCache && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-2xl max-w-2xl w-full max-h-[80vh] overflow-y-auto">
+              <div className="p-6 border-b border-gray-200 flex justify-between items-center sticky top-0 bg-white">
+                <h2 className="text-2xl font-bold text-gray-800">Image Cache</h2>
+                <button
+                  onClick={closeImageCache}
+                  className="text-gray-500 hover:text-gray-700"
+                >
+                  <X size={24} />
+                </button>
+              </div>
+              <div className="p-6">
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                  <div className="text-sm text-gray-600">
+                    {imageCacheRows.length} {imageCacheRows.length === 1 ? 'entry' : 'entries'}
+                    {' · '}{formatBytes(imageCacheRows.reduce((sum, row) => sum + row.bytes, 0))} stored
+                    {' · '}{imageCacheRows.filter(row => row.expired).length} expired
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={refreshAllImages}
+                      disabled={imageCacheProgress !== null || imageCacheRows.length === 0}
+                      className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white px-3 py-2 rounded-md flex items-center gap-2 transition-colors text-sm"
+                    >
+                      <RefreshCw size={16} />
+                      Refresh all
+                    </button>
+                    <button
+                      onClick={() => clearImageCacheEntries(true)}
+                      disabled={imageCacheProgress !== null || !imageCacheRows.some(row => row.expired)}
+                      className="bg-gray-600 hover:bg-gray-700 disabled:bg-gray-400 text-white px-3 py-2 rounded-md transition-colors text-sm"
+                    >
+                      Clear expired
+                    </button>
+                    <button
+                      onClick={() => clearImageCacheEntries(false)}
+                      disabled={imageCacheProgress !== null || imageCacheRows.length === 0}
+                      className="bg-red-600 hover:bg-red-700 disabled:bg-gray-400 text-white px-3 py-2 rounded-md transition-colors text-sm"
+                    >
+                      Clear all
+                    </button>
+                  </div>
+                </div>
+                {imageCacheProgress && (
+                  <div className="mb-4">
+                    <div className="flex justify-between text-xs text-gray-600 mb-1">
+                      <span>Refreshing {imageCacheProgress.done} of {imageCacheProgress.total}…</span>
+                      <button
+                        onClick={cancelImageCacheRefresh}
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        Stop
+                      </button>
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                      <div
+                        className="bg-blue-600 h-2 rounded-full transition-all"
+                        style={{ width: `${imageCacheProgress.total ? (imageCacheProgress.done / imageCacheProgress.total) * 100 : 0}%` }}
+                      />
+                    </div>
+                  </div>
+                )}
+                {imageCacheRows.length === 0 ? (
+                  <p className="text-gray-500 text-center py-8">No wiki images are cached.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {imageCacheRows.map(row => {
+                      const users = commandsUsingImageKey(row.key);
+                      return (
+                        <div key={row.key} className="bg-gray-50 rounded-lg p-3 flex items-center gap-3">
+                          <div className="w-12 h-12 flex-shrink-0 flex items-center justify-center bg-white rounded">
+                            {row.entry.miss ? (
+                              <span className="text-gray-400">🖼️</span>
+                            ) : (
+                              <StoredImage image={row.entry.url} alt={row.key} className="w-12 h-12 object-contain" />
+                            )}
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium text-gray-800 truncate">{row.key}</span>
+                              {row.expired && (
+                                <span className="text-xs bg-amber-100 text-amber-800 px-2 py-0.5 rounded">expired</span>
+                              )}
+                            </div>
+                            <div className="text-xs text-gray-500 mt-1 truncate">
+                              {row.entry.miss === 'broken' ? 'Broken image' : row.entry.miss === 'not-found' ? 'Not found' : row.entry.source || 'Earlier lookup'}
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              {formatAge(row.ageMs)} · {formatBytes(row.bytes)}
+                              {' · '}{users.length === 0 ? 'unused' : `used by ${users.length} ${users.length === 1 ? 'command' : 'commands'}`}
+                            </div>
+                          </div>
+                          <div className="flex gap-2 flex-shrink-0">
+                            <button
+                              onClick={() => handleRefreshImageEntry(row.key)}
+                              disabled={imageCacheProgress !== null || refreshingImageKey !== null}
+                              className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white px-3 py-2 rounded-md flex items-center gap-2 transition-colors"
+                              title="Look this image up again"
+                            >
+                              {refreshingImageKey === row.key ? (
+                                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                              ) : (
+                                <RefreshCw size={16} />
+                              )}
+                            </button>
+                            <button
+                              onClick={() => pinCachedImage(row)}
+                              disabled={Boolean(row.entry.miss) || users.length === 0}
+                              className="bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white px-3 py-2 rounded-md flex items-center gap-2 transition-colors"
+                              title="Save this image into the commands using it"
+                            >
+                              <Pin size={16} />
+                              Pin
+                            </button>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Macro Editor Modal */}
+        {macroDraft && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-2xl max-w-2xl w-full max-h-[80vh] overflow-y-auto">
+              <div className="p-6 border-b border-gray-200 flex justify-between items-center sticky top-0 bg-white">
+                <h2 className="text-2xl font-bold text-gray-800">
+                  {macroDraft.id === null ? 'Add New Macro' : 'Edit Macro'}
+                </h2>
+                <button
+                  onClick={() => setMacroDraft(null)}
+                  className="text-gray-500 hover:text-gray-700"
+                >
+                  <X size={24} />
+                </button>
+              </div>
+              <div className="p-6 space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+                  <input
+                    type="text"
+                    value={macroDraft.name}
+                    onChange={(e) => setMacroDraft({ ...macroDraft, name: e.target.value })}
+                    placeholder="e.g., Boss prep"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Commands, in order</label>
+                  <div className="space-y-2 mb-3">
+                    {macroDraft.commandIds.map((commandId, index) => {
+                      const cmd = commands.find(c => c.id === commandId);
+                      return (
+                        <div
+                          key={index}
+                          className={`flex items-center gap-3 rounded-lg p-3 ${cmd ? 'bg-gray-50' : 'bg-amber-50 border border-amber-200'}`}
+                        >
+                          <span className="text-sm text-gray-500 w-5">{index + 1}.</span>
+                          <div className="flex-1 min-w-0">
+                            {cmd ? (
+                              <>
+                                <div className="font-medium text-gray-800">{cmd.name}</div>
+                                <div className="font-mono text-xs text-gray-500 truncate">{cmd.command}</div>
+                              </>
+                            ) : (
+                              <div className="text-sm text-amber-800 flex items-center gap-2">
+                                <AlertTriangle size={16} />
+                                Deleted command
+                              </div>
+                            )}
+                          </div>
+                          <div className="flex gap-1">
+                            <button
+                              onClick={() => moveMacroStep(index, -1)}
+                              disabled={index === 0}
+                              className="text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                              title="Move up"
+                            >
+                              <ChevronUp size={16} />
+                            </button>
+                            <button
+                              onClick={() => moveMacroStep(index, 1)}
+                              disabled={index === macroDraft.commandIds.length - 1}
+                              className="text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                              title="Move down"
+                            >
+                              <ChevronDown size={16} />
+                            </button>
+                            <button
+                              onClick={() => setMacroDraft({ ...macroDraft, commandIds: macroDraft.commandIds.filter((_, i) => i !== index) })}
+                              className="text-red-600 hover:text-red-700"
+                              title="Remove step"
+                            >
+                              <X size={16} />
+                            </button>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && setMacroDraft({ ...macroDraft, commandIds: [...macroDraft.commandIds, Number(e.target.value)] })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Add a command...</option>
+                    {[...commands].sort((a, b) => a.name.localeCompare(b.name)).map(cmd => (
+                      <option key={cmd.id} value={cmd.id}>{cmd.name}</option>
+                    ))}
+                  </select>
+                </div>
+                {macroDraft.commandIds.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Console line</label>
+                    <div className="bg-gray-100 rounded p-3 font-mono text-sm text-gray-700 break-all">
+                      {buildMacroCode({ id: 0, name: '', commandIds: macroDraft.commandIds }, commands)}
+                    </div>
+                  </div>
+                )}
+              </div>
+              <div className="p-6 bg-gray-50 flex gap-3">
+                <button
+                  onClick={() => setMacroDraft(null)}
+                  className="flex-1 bg-gray-200 hover:bg-gray-300 text-gray-800 px-4 py-3 rounded-lg font-medium transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSaveMacro}
+                  className="flex-1 bg-green-600 hover:bg-green-700 text-white px-4 py-3 rounded-lg font-medium transition-colors flex items-center justify-center gap-2"
+                >
+                  <Save size={18} />
+                  Save Macro
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Command Editor Modal */}
         {showCommandEditor && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -883,6 +3682,15 @@ export default function DSTCommandManager() {
                   {commands.find(c => c.id === editingId) ? 'Edit Command' : 'Add New Command'}
                 </h2>
                 <div className="flex gap-2">
+                  {revisions.length > 0 && (
+                    <button
+                      onClick={() => setShowRevisions(!showRevisions)}
+                      className={`p-2 ${showRevisions ? 'text-blue-700' : 'text-gray-500 hover:text-gray-700'}`}
+                      title="Revision history"
+                    >
+                      <History size={24} />
+                    </button>
+                  )}
                   {commands.find(c => c.id === editingId) && (
                     <button
                       onClick={(e) => {
@@ -906,6 +3714,123 @@ export default function DSTCommandManager() {
                 </div>
               </div>
               <div className="p-6 space-y-4">
+                {editConflict && (
+                  <div className="p-3 bg-amber-50 border border-amber-300 rounded-lg text-sm text-amber-800 space-y-2">
+                    <p className="flex items-center gap-2 font-medium">
+                      <AlertTriangle size={16} />
+                      {editConflict.remote
+                        ? 'This command was changed in another tab while you were editing it.'
+                        : 'This command was deleted in another tab while you were editing it.'}
+                    </p>
+                    {editConflict.remote && editConflict.remote.command !== editCommand.trim() && (
+                      <div className="bg-white border border-amber-200 rounded text-xs font-mono">
+                        <div className="grid grid-cols-2 text-gray-500 border-b border-amber-200">
+                          <span className="px-2 py-1">Theirs</span>
+                          <span className="px-2 py-1 border-l border-gray-200">Yours</span>
+                        </div>
+                        {diffLines(editConflict.remote.command, editCommand.trim()).map((row, rowIndex) => (
+                          <div key={rowIndex} className="grid grid-cols-2">
+                            <pre className={`px-2 py-0.5 whitespace-pre-wrap break-all ${row.type === 'removed' || row.type === 'changed' ? 'bg-red-50 text-red-800' : 'text-gray-700'}`}>
+                              {row.left ?? ''}
+                            </pre>
+                            <pre className={`px-2 py-0.5 whitespace-pre-wrap break-all border-l border-gray-200 ${row.type === 'added' || row.type === 'changed' ? 'bg-green-50 text-green-800' : 'text-gray-700'}`}>
+                              {row.right ?? ''}
+                            </pre>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => resolveEditConflict('theirs')}
+                        className="px-3 py-1 bg-white border border-amber-300 rounded hover:bg-amber-100"
+                      >
+                        {editConflict.remote ? 'Load their version' : 'Discard my edits'}
+                      </button>
+                      <button
+                        onClick={() => resolveEditConflict('mine')}
+                        className="px-3 py-1 bg-amber-600 text-white rounded hover:bg-amber-700"
+                      >
+                        {editConflict.remote ? 'Keep my edits' : 'Keep editing and recreate it'}
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {(() => {
+                  const current = commands.find(c => c.id === editingId);
+                  return current && (current.createdAt || current.updatedAt) && (
+                    <p className="text-xs text-gray-500">
+                      {current.createdAt && `Created ${new Date(current.createdAt).toLocaleString()}`}
+                      {current.createdAt && current.updatedAt && ' · '}
+                      {current.updatedAt && `Last saved ${new Date(current.updatedAt).toLocaleString()}`}
+                    </p>
+                  );
+                })()}
+
+                {showRevisions && (
+                  <div className="border border-gray-200 rounded-lg">
+                    <div className="px-4 py-2 bg-gray-50 border-b border-gray-200 text-sm font-medium text-gray-700">
+                      Revision history ({revisions.length})
+                    </div>
+                    <div className="max-h-48 overflow-y-auto divide-y divide-gray-100">
+                      {[...revisions.keys()].reverse().map(index => (
+                        <button
+                          key={index}
+                          onClick={() => setSelectedRevision(selectedRevision === index ? null : index)}
+                          className={`w-full text-left px-4 py-2 text-sm flex justify-between gap-3 ${selectedRevision === index ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                        >
+                          <span className="text-gray-800 truncate">{revisions[index].name}</span>
+                          <span className="text-gray-500 flex-shrink-0">
+                            {index === revisions.length - 1 ? 'Current · ' : ''}
+                            {new Date(revisions[index].savedAt).toLocaleString()}
+                          </span>
+                        </button>
+                      ))}
+                    </div>
+                    {selectedRevision !== null && revisions[selectedRevision] && (
+                      <div className="p-4 border-t border-gray-200 space-y-3">
+                        <div className="grid grid-cols-2 gap-2 text-xs font-medium text-gray-500">
+                          <span>{selectedRevision > 0 ? `Before (${new Date(revisions[selectedRevision - 1].savedAt).toLocaleString()})` : 'Before (first revision)'}</span>
+                          <span>This revision</span>
+                        </div>
+                        <div className="font-mono text-xs border border-gray-200 rounded overflow-x-auto">
+                          {diffLines(selectedRevision > 0 ? revisions[selectedRevision - 1].command : '', revisions[selectedRevision].command).map((row, rowIndex) => (
+                            <div key={rowIndex} className="grid grid-cols-2">
+                              <pre className={`px-2 py-0.5 whitespace-pre-wrap break-all ${row.type === 'removed' || row.type === 'changed' ? 'bg-red-50 text-red-800' : 'text-gray-700'}`}>
+                                {row.left ?? ''}
+                              </pre>
+                              <pre className={`px-2 py-0.5 whitespace-pre-wrap break-all border-l border-gray-200 ${row.type === 'added' || row.type === 'changed' ? 'bg-green-50 text-green-800' : 'text-gray-700'}`}>
+                                {row.right ?? ''}
+                              </pre>
+                            </div>
+                          ))}
+                        </div>
+                        <div className="text-xs text-gray-500 space-y-1">
+                          {revisions[selectedRevision].tags.length > 0 && (
+                            <div>Tags: {revisions[selectedRevision].tags.join(', ')}</div>
+                          )}
+                          <div>Category: {categories.find(c => c.id === revisions[selectedRevision].category)?.name ?? revisions[selectedRevision].category ?? 'None'}</div>
+                          {revisions[selectedRevision].image && (
+                            <div className="break-all">
+                              Image: {isInlineImageReference(revisions[selectedRevision].image)
+                                ? 'uploaded image (not restorable)'
+                                : isImageRef(revisions[selectedRevision].image) ? 'uploaded image' : revisions[selectedRevision].image}
+                            </div>
+                          )}
+                        </div>
+                        <button
+                          onClick={() => restoreRevision(revisions[selectedRevision])}
+                          className="w-full bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md flex items-center justify-center gap-2 transition-colors text-sm"
+                        >
+                          <RotateCcw size={16} />
+                          Restore this revision
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Command Name *
@@ -932,10 +3857,182 @@ export default function DSTCommandManager() {
                     onChange={handleImageUpload}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
                   />
-                  {editImage && (
+                  {imageDraft && (() => {
+                    const crop = imageDraft.crop;
+                    const output = imageDraft.keepAnimation
+                      ? { width: imageDraft.width, height: imageDraft.height }
+                      : fitDimensions(crop ? crop.size : imageDraft.width, crop ? crop.size : imageDraft.height, imageMaxDimension);
+                    const outputSize = imageDraft.keepAnimation ? imageDraft.file.size : imageDraft.result?.blob.size;
+                    const minCropSize = Math.max(16, Math.round(Math.min(imageDraft.width, imageDraft.height) / 10));
+                    return (
+                      <div className="mt-3 border border-gray-200 rounded-lg p-3 space-y-3 bg-gray-50">
+                        {imageDraft.animated && (
+                          <div className="text-sm">
+                            <p className="text-gray-700 mb-2">
+                              This image is animated. Resizing and re-encoding keeps only the first frame.
+                            </p>
+                            <div className="flex gap-2">
+                              <button
+                                onClick={() => updateImageDraft({ ...imageDraft, keepAnimation: true })}
+                                className={`px-3 py-1 rounded text-sm ${imageDraft.keepAnimation ? 'bg-blue-500 text-white' : 'bg-gray-200 hover:bg-gray-300'}`}
+                              >
+                                Keep animation
+                              </button>
+                              <button
+                                onClick={() => updateImageDraft({ ...imageDraft, keepAnimation: false })}
+                                className={`px-3 py-1 rounded text-sm ${!imageDraft.keepAnimation ? 'bg-blue-500 text-white' : 'bg-gray-200 hover:bg-gray-300'}`}
+                              >
+                                Use first frame
+                              </button>
+                            </div>
+                          </div>
+                        )}
+
+                        {!imageDraft.keepAnimation && (
+                          <div className="flex flex-wrap items-center gap-4 text-sm">
+                            <label className="flex items-center gap-2 text-gray-700">
+                              Max size
+                              <select
+                                value={imageMaxDimension}
+                                onChange={(e) => handleImageMaxDimensionChange(Number(e.target.value))}
+                                className="px-2 py-1 border border-gray-300 rounded-md"
+                              >
+                                {MAX_DIMENSION_OPTIONS.map(size => (
+                                  <option key={size} value={size}>{size}px</option>
+                                ))}
+                              </select>
+                            </label>
+                            <label className="flex items-center gap-2 text-gray-700">
+                              <input
+                                type="checkbox"
+                                checked={crop !== null}
+                                onChange={(e) => updateImageCrop(e.target.checked ? centeredSquareCrop(imageDraft.width, imageDraft.height) : null)}
+                              />
+                              Crop to square
+                            </label>
+                          </div>
+                        )}
+
+                        <div className="flex flex-wrap gap-4 items-start justify-center">
+                          <div className="text-center">
+                            <div className="relative inline-block">
+                              <StoredImage
+                                image={imageDraft.originalUrl}
+                                alt="Original"
+                                className="max-h-48 max-w-full block rounded border border-gray-200"
+                              />
+                              {crop && !imageDraft.keepAnimation && (
+                                <div
+                                  className="absolute border-2 border-blue-500 pointer-events-none"
+                                  style={{
+                                    left: `${(crop.x / imageDraft.width) * 100}%`,
+                                    top: `${(crop.y / imageDraft.height) * 100}%`,
+                                    width: `${(crop.size / imageDraft.width) * 100}%`,
+                                    height: `${(crop.size / imageDraft.height) * 100}%`,
+                                    boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.4)'
+                                  }}
+                                />
+                              )}
+                            </div>
+                            <p className="text-xs text-gray-600 mt-1">
+                              Before: {formatBytes(imageDraft.file.size)} · {imageDraft.width}×{imageDraft.height}
+                            </p>
+                          </div>
+                          <div className="text-center">
+                            <div className="w-40 h-40 flex items-center justify-center bg-white rounded border border-gray-200">
+                              {imageDraft.processing ? (
+                                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-gray-400"></div>
+                              ) : (
+                                <StoredImage
+                                  image={(imageDraft.keepAnimation ? imageDraft.originalUrl : imageDraft.result?.url) || ''}
+                                  alt="Processed preview"
+                                  className="w-full h-full object-contain p-2"
+                                />
+                              )}
+                            </div>
+                            <p className="text-xs text-gray-600 mt-1">
+                              After: {outputSize !== undefined ? formatBytes(outputSize) : '…'} · {output.width}×{output.height}
+                              {outputSize !== undefined && !imageDraft.keepAnimation && (
+                                <> ({Math.round((1 - outputSize / imageDraft.file.size) * 100)}% smaller)</>
+                              )}
+                            </p>
+                          </div>
+                        </div>
+
+                        {crop && !imageDraft.keepAnimation && (
+                          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 text-xs text-gray-700">
+                            <label>
+                              Crop size
+                              <input
+                                type="range"
+                                min={minCropSize}
+                                max={Math.min(imageDraft.width, imageDraft.height)}
+                                value={crop.size}
+                                onChange={(e) => updateImageCrop({ ...crop, size: Number(e.target.value) })}
+                                className="w-full"
+                              />
+                            </label>
+                            <label>
+                              Horizontal
+                              <input
+                                type="range"
+                                min={0}
+                                max={imageDraft.width - crop.size}
+                                value={crop.x}
+                                disabled={crop.size >= imageDraft.width}
+                                onChange={(e) => updateImageCrop({ ...crop, x: Number(e.target.value) })}
+                                className="w-full"
+                              />
+                            </label>
+                            <label>
+                              Vertical
+                              <input
+                                type="range"
+                                min={0}
+                                max={imageDraft.height - crop.size}
+                                value={crop.y}
+                                disabled={crop.size >= imageDraft.height}
+                                onChange={(e) => updateImageCrop({ ...crop, y: Number(e.target.value) })}
+                                className="w-full"
+                              />
+                            </label>
+                          </div>
+                        )}
+
+                        {imageDraft.error && (
+                          <p className="text-sm text-red-600">{imageDraft.error}</p>
+                        )}
+
+                        <div className="flex justify-end gap-2">
+                          <button
+                            onClick={discardImageDraft}
+                            className="px-3 py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 text-sm"
+                          >
+                            Cancel
+                          </button>
+                          {!imageDraft.keepAnimation && (
+                            <button
+                              onClick={() => applyImageDraft(true)}
+                              className="px-3 py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 text-sm"
+                            >
+                              Use original
+                            </button>
+                          )}
+                          <button
+                            onClick={() => applyImageDraft()}
+                            disabled={imageDraft.processing || (!imageDraft.keepAnimation && !imageDraft.result)}
+                            className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 text-sm disabled:opacity-50"
+                          >
+                            Use image
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })()}
+                  {editImage && !imageDraft && (
                     <div className="mt-3 flex justify-center">
-                      <img
-                        src={editImage}
+                      <StoredImage
+                        image={editImage}
                         alt="Preview"
                         className="w-40 h-40 object-contain bg-gray-50 rounded p-2 border border-gray-200"
                       />
@@ -957,7 +4054,7 @@ export default function DSTCommandManager() {
                     >
                       None
                     </button>
-                    {CATEGORIES.map(category => (
+                    {categories.map(category => (
                       <button
                         key={category.id}
                         onClick={() => setEditCategory(category.id)}
@@ -1004,22 +4101,92 @@ export default function DSTCommandManager() {
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Command Code *
                   </label>
-                  <textarea
-                    value={editCommand}
-                    onChange={(e) => setEditCommand(e.target.value)}
-                    placeholder='e.g., c_godmode()'
-                    rows={4}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  />
+                  <div className="relative">
+                    <textarea
+                      ref={commandInputRef}
+                      value={editCommand}
+                      onChange={(e) => {
+                        setEditCommand(e.target.value);
+                        updatePrefabCompletion(e.target.value, e.target.selectionStart);
+                      }}
+                      onSelect={(e) => updatePrefabCompletion(e.currentTarget.value, e.currentTarget.selectionStart)}
+                      onKeyDown={handleCommandKeyDown}
+                      onBlur={() => setPrefabCompletion(null)}
+                      placeholder='e.g., c_godmode()'
+                      rows={4}
+                      className={`w-full px-3 py-2 border rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${editorSyntaxError
+                        ? 'border-red-400'
+                        : 'border-gray-300'
+                        }`}
+                    />
+                    {prefabSuggestions.length > 0 && (
+                      <ul className="absolute left-0 right-0 top-full mt-1 bg-white border border-gray-200 rounded-md shadow-lg z-10 text-sm">
+                        {prefabSuggestions.map((prefab, index) => (
+                          <li
+                            key={prefab.id}
+                            // mousedown instead of click so the textarea does not blur first
+                            onMouseDown={(e) => {
+                              e.preventDefault();
+                              applyPrefabCompletion(prefab.id);
+                            }}
+                            className={`px-3 py-2 flex justify-between cursor-pointer ${index === prefabCompletionIndex
+                              ? 'bg-blue-50'
+                              : 'hover:bg-gray-50'
+                              }`}
+                          >
+                            <span className="font-mono text-gray-800">{prefab.id}</span>
+                            <span className="text-gray-500">{prefab.name}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                  {editorUnknownPrefabs.length > 0 && (
+                    <div className="mt-2 p-3 bg-amber-50 border border-amber-200 rounded-md text-sm text-amber-800 space-y-1">
+                      {editorUnknownPrefabs.map(prefab => {
+                        const suggestion = suggestPrefab(prefab);
+                        return (
+                          <div key={prefab} className="flex items-center gap-2">
+                            <AlertTriangle size={16} />
+                            Unknown prefab &quot;{prefab}&quot;{suggestion && <> (did you mean &quot;{suggestion.id}&quot;, {suggestion.name}?)</>}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                  {editorSyntaxError && (
+                    <div className="mt-2 p-3 bg-red-50 border border-red-200 rounded-md text-sm">
+                      <div className="flex items-center gap-2 text-red-700 font-medium">
+                        <AlertTriangle size={16} />
+                        Line {editorSyntaxError.line}, column {editorSyntaxError.column}: {editorSyntaxError.message}
+                      </div>
+                      <pre className="mt-2 font-mono text-xs text-gray-700 overflow-x-auto">
+                        {editorSyntaxLine}
+                        {'\n'}
+                        <span className="text-red-600">{' '.repeat(Math.max(editorSyntaxError.column - 1, 0))}^</span>
+                      </pre>
+                      <label className="mt-2 flex items-center gap-2 text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={saveDespiteSyntaxError}
+                          onChange={(e) => setSaveDespiteSyntaxError(e.target.checked)}
+                        />
+                        Save anyway
+                      </label>
+                    </div>
+                  )}
+                  <p className="text-xs text-gray-500 mt-1">
+                    Use placeholders like {'{prefab}'} or {'{count:number=1}'} to ask for values when the card is clicked
+                  </p>
                 </div>
 
                 <div className="flex gap-3 pt-4">
                   <button
                     onClick={(e) => handleSave(editingId, e)}
-                    disabled={saving || saveSuccess}
+                    disabled={saving || saveSuccess || (!!editorSyntaxError && !saveDespiteSyntaxError)}
                     className={`flex-1 px-6 py-3 rounded-md flex items-center justify-center gap-2 transition-colors font-medium ${saveSuccess
                       ? 'bg-green-600 text-white cursor-default'
-                      : saving
+                      : saving || (editorSyntaxError && !saveDespiteSyntaxError)
                         ? 'bg-gray-400 text-white cursor-not-allowed'
                         : 'bg-green-600 hover:bg-green-700 text-white'
                       }`}
@@ -1055,6 +4222,231 @@ export default function DSTCommandManager() {
           </div>
         )}
 
+        {/* Storage Modal */}
+        {storagePanel && storageUsage && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-2xl max-w-2xl w-full max-h-[80vh] overflow-y-auto">
+              <div className="p-6 border-b border-gray-200 flex justify-between items-center sticky top-0 bg-white">
+                <h2 className="text-2xl font-bold text-gray-800">Storage</h2>
+                <button
+                  onClick={() => setStoragePanel(null)}
+                  className="text-gray-500 hover:text-gray-700"
+                >
+                  <X size={24} />
+                </button>
+              </div>
+              <div className="p-6 space-y-6">
+                {storagePanel.warning && (
+                  <div className="bg-red-50 border border-red-200 text-red-800 rounded-lg p-4 flex gap-3 text-sm">
+                    <AlertTriangle size={20} className="flex-shrink-0" />
+                    <span>{storagePanel.warning}</span>
+                  </div>
+                )}
+                <div>
+                  <div className="flex justify-between text-sm text-gray-700 mb-2">
+                    <span className="font-medium">{formatBytes(storageUsage.used)} of about {formatBytes(storageUsage.available)} used</span>
+                    <span>{storageUsage.percentage}%</span>
+                  </div>
+                  <div className="w-full bg-gray-200 rounded-full h-3 overflow-hidden flex">
+                    {(Object.keys(STORAGE_CATEGORY_LABELS) as (keyof StorageBreakdown)[]).map(category => (
+                      <div
+                        key={category}
+                        className={`h-3 ${STORAGE_CATEGORY_COLORS[category]}`}
+                        style={{ width: `${(storageUsage.breakdown[category] / storageUsage.available) * 100}%` }}
+                      />
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  {(Object.keys(STORAGE_CATEGORY_LABELS) as (keyof StorageBreakdown)[]).map(category => (
+                    <div key={category} className="flex items-center justify-between text-sm text-gray-700">
+                      <span className="flex items-center gap-2">
+                        <span className={`w-3 h-3 rounded-full ${STORAGE_CATEGORY_COLORS[category]}`} />
+                        {STORAGE_CATEGORY_LABELS[category]}
+                      </span>
+                      <span>{formatBytes(storageUsage.breakdown[category])}</span>
+                    </div>
+                  ))}
+                </div>
+                {imageStoreUsage && (
+                  <div className="border-t border-gray-200 pt-4 space-y-2 text-sm text-gray-700">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">
+                        Image store ({imageStoreUsage.count} {imageStoreUsage.count === 1 ? 'upload' : 'uploads'})
+                      </span>
+                      <span>{formatBytes(imageStoreUsage.bytes)}</span>
+                    </div>
+                    {imageStoreUsage.originUsage !== null && imageStoreUsage.originQuota ? (
+                      <>
+                        <div className="w-full bg-gray-200 rounded-full h-2 overflow-hidden">
+                          <div
+                            className={`h-2 ${storageMeterColor(originPercentage(imageStoreUsage) ?? 0)}`}
+                            style={{ width: `${Math.min(100, originPercentage(imageStoreUsage) ?? 0)}%` }}
+                          />
+                        </div>
+                        <div className="text-gray-500">
+                          The site uses {formatBytes(imageStoreUsage.originUsage)} of its {formatBytes(imageStoreUsage.originQuota)} browser
+                          quota, including uploaded images and cached wiki images. This is separate from the localStorage space above.
+                        </div>
+                      </>
+                    ) : (
+                      <div className="text-gray-500">Uploaded images are kept in IndexedDB, separate from the localStorage space above.</div>
+                    )}
+                  </div>
+                )}
+                <div className="space-y-3">
+                  <h3 className="font-semibold text-gray-800">Free up space</h3>
+                  <div className="flex items-center justify-between gap-3 bg-gray-50 rounded-lg p-4">
+                    <div className="text-sm text-gray-700">
+                      <div className="font-medium">Clear the image cache</div>
+                      <div className="text-gray-500">Wiki images are looked up again when needed.</div>
+                    </div>
+                    <button
+                      onClick={clearImageCacheForSpace}
+                      disabled={storageBusy || storageUsage.breakdown.imageCache === 0}
+                      className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white px-3 py-2 rounded-md transition-colors text-sm flex-shrink-0"
+                    >
+                      Clear {formatBytes(storageUsage.breakdown.imageCache)}
+                    </button>
+                  </div>
+                  <div className="flex items-center justify-between gap-3 bg-gray-50 rounded-lg p-4">
+                    <div className="text-sm text-gray-700">
+                      <div className="font-medium">Move images out of command records</div>
+                      <div className="text-gray-500">Embedded uploads move to the browser&apos;s image store, which does not count here.</div>
+                    </div>
+                    <button
+                      onClick={moveEmbeddedImages}
+                      disabled={storageBusy || storageUsage.breakdown.embeddedImages === 0}
+                      className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white px-3 py-2 rounded-md transition-colors text-sm flex-shrink-0 flex items-center gap-2"
+                    >
+                      {storageBusy && <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>}
+                      Move {formatBytes(storageUsage.breakdown.embeddedImages)}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Server Token Modal */}
+        {serverTokenPrompt && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <form
+              onSubmit={handleServerTokenSubmit}
+              className="bg-white rounded-lg shadow-2xl max-w-md w-full overflow-hidden"
+            >
+              <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+                <h2 className="text-xl font-bold text-gray-800">Library Token</h2>
+                <button
+                  type="button"
+                  onClick={() => setServerTokenPrompt(null)}
+                  className="text-gray-500 hover:text-gray-700"
+                >
+                  <X size={24} />
+                </button>
+              </div>
+              <div className="p-6 space-y-4">
+                <p className="text-sm text-gray-700">
+                  The server did not accept your changes: {serverTokenPrompt.message}. They are kept in this browser
+                  until they can be sent. Enter the library token set on the server (DST_LIBRARY_TOKEN).
+                </p>
+                <input
+                  type="password"
+                  autoFocus
+                  value={serverTokenPrompt.token}
+                  onChange={(e) => setServerTokenPrompt({ ...serverTokenPrompt, token: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div className="p-6 bg-gray-50 flex gap-3">
+                <button
+                  type="button"
+                  onClick={() => setServerTokenPrompt(null)}
+                  className="flex-1 bg-gray-200 hover:bg-gray-300 text-gray-800 px-4 py-3 rounded-lg font-medium transition-colors"
+                >
+                  Later
+                </button>
+                <button
+                  type="submit"
+                  disabled={!serverTokenPrompt.token.trim()}
+                  className="flex-1 bg-green-600 hover:bg-green-700 disabled:bg-gray-400 text-white px-4 py-3 rounded-lg font-medium transition-colors"
+                >
+                  Save and Send
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        {/* Template Fill-in Modal */}
+        {templateFill && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <form
+              onSubmit={handleTemplateCopy}
+              className="bg-white rounded-lg shadow-2xl max-w-md w-full max-h-[80vh] overflow-y-auto"
+            >
+              <div className="p-6 border-b border-gray-200 flex justify-between items-center sticky top-0 bg-white">
+                <h2 className="text-xl font-bold text-gray-800">{templateFill.name}</h2>
+                <button
+                  type="button"
+                  onClick={() => setTemplateFill(null)}
+                  className="text-gray-500 hover:text-gray-700"
+                >
+                  <X size={24} />
+                </button>
+              </div>
+              <div className="p-6 space-y-4">
+                {templateFill.placeholders.map((placeholder, index) => (
+                  <div key={placeholder.name}>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      {placeholder.name}
+                      {placeholder.type === 'number' && <span className="text-gray-400 font-normal"> (number)</span>}
+                    </label>
+                    <input
+                      type={placeholder.type === 'number' ? 'number' : 'text'}
+                      step="any"
+                      autoFocus={index === 0}
+                      value={templateFill.values[placeholder.name]}
+                      onChange={(e) => setTemplateFill({
+                        ...templateFill,
+                        values: { ...templateFill.values, [placeholder.name]: e.target.value },
+                        errors: { ...templateFill.errors, [placeholder.name]: '' }
+                      })}
+                      placeholder={placeholder.defaultValue ?? ''}
+                      className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 ${templateFill.errors[placeholder.name]
+                        ? 'border-red-400'
+                        : 'border-gray-300'
+                        }`}
+                    />
+                    {templateFill.errors[placeholder.name] && (
+                      <p className="text-red-600 text-xs mt-1">{templateFill.errors[placeholder.name]}</p>
+                    )}
+                  </div>
+                ))}
+                <div className="bg-gray-100 rounded p-3 font-mono text-sm text-gray-700 break-all">
+                  {renderTemplate(templateFill.code, templateFill.values)}
+                </div>
+              </div>
+              <div className="p-6 bg-gray-50 flex gap-3">
+                <button
+                  type="button"
+                  onClick={() => setTemplateFill(null)}
+                  className="flex-1 bg-gray-200 hover:bg-gray-300 text-gray-800 px-4 py-3 rounded-lg font-medium transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 bg-green-600 hover:bg-green-700 text-white px-4 py-3 rounded-lg font-medium transition-colors"
+                >
+                  Copy
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
         {/* Delete Confirmation Modal */}
         {deleteConfirm.show && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -1069,13 +4461,46 @@ export default function DSTCommandManager() {
               </div>
               <div className="p-6">
                 <p className="text-gray-700 mb-2">
-                  Are you sure you want to delete {deleteConfirm.type === 'command' ? 'the command' : 'the tag'}{' '}
-                  <span className="font-semibold">"{deleteConfirm.item?.name}"</span>?
+                  Are you sure you want to delete {deleteConfirm.type === 'command' ? 'the command' : deleteConfirm.type === 'category' ? 'the category' : deleteConfirm.type === 'view' ? 'the view' : deleteConfirm.type === 'macro' ? 'the macro' : deleteConfirm.type === 'trash' ? 'permanently' : 'the tag'}{' '}
+                  <span className="font-semibold">"{deleteConfirm.item && 'record' in deleteConfirm.item ? deleteConfirm.item.record.name : deleteConfirm.item?.name}"</span>?
                 </p>
                 {deleteConfirm.type === 'command' ? (
+                  <div className="text-gray-500 text-sm space-y-2">
+                    <p>It will be moved to the trash, where it can be restored.</p>
+                    {findMacrosUsingCommand(macros, (deleteConfirm.item as Command).id).length > 0 && (
+                      <p className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 flex gap-2">
+                        <AlertTriangle size={16} className="flex-shrink-0 mt-0.5" />
+                        <span>
+                          Used by {findMacrosUsingCommand(macros, (deleteConfirm.item as Command).id).map(m => `"${m.name}"`).join(', ')}.
+                          Those macros will skip this step and show a warning until it is removed.
+                        </span>
+                      </p>
+                    )}
+                  </div>
+                ) : deleteConfirm.type === 'view' || deleteConfirm.type === 'macro' || deleteConfirm.type === 'trash' ? (
                   <p className="text-gray-500 text-sm">This action cannot be undone.</p>
+                ) : deleteConfirm.type === 'category' ? (
+                  <div className="text-gray-500 text-sm space-y-2">
+                    <p>
+                      {commands.filter(cmd => cmd.category === deleteConfirm.item?.id).length} command(s) use this category.
+                      Move them to:
+                    </p>
+                    <select
+                      value={categoryReassignTo ?? ''}
+                      onChange={(e) => setCategoryReassignTo(e.target.value || null)}
+                      disabled={deleteConfirm.deleting}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">None</option>
+                      {categories
+                        .filter(c => c.id !== deleteConfirm.item?.id && c.name)
+                        .map(c => (
+                          <option key={c.id} value={c.id}>{c.name}</option>
+                        ))}
+                    </select>
+                  </div>
                 ) : (
-                  <p className="text-gray-500 text-sm">It will be removed from all commands. This action cannot be undone.</p>
+                  <p className="text-gray-500 text-sm">It will be removed from all commands and moved to the trash. Restoring it puts it back on them.</p>
                 )}
                 {deleteConfirm.error && (
                   <div className="mt-4 p-3 bg-red-100 border border-red-300 rounded-lg text-red-700 text-sm">
@@ -1113,11 +4538,94 @@ export default function DSTCommandManager() {
           </div>
         )}
 
-        {/* Tag Filter */}
+        {/* Import Report Modal */}
+        {importReport && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+            <div className="bg-white rounded-lg shadow-2xl max-w-md w-full max-h-[80vh] overflow-y-auto">
+              <div className="p-6 border-b border-gray-200 flex justify-between items-center sticky top-0 bg-white">
+                <h2 className="text-xl font-bold text-gray-800">
+                  {importReport.error ? 'Import Failed' : 'Import Complete'}
+                </h2>
+                <button
+                  onClick={() => setImportReport(null)}
+                  className="text-gray-500 hover:text-gray-700"
+                >
+                  <X size={24} />
+                </button>
+              </div>
+              <div className="p-6 space-y-4">
+                <p className="text-gray-500 text-sm break-all">{importReport.fileName}</p>
+                {importReport.error !== null ? (
+                  <div className="p-3 bg-red-100 border border-red-300 rounded-lg text-red-700 text-sm">
+                    {importReport.error}
+                  </div>
+                ) : (
+                  <>
+                    <table className="w-full text-sm text-gray-700">
+                      <thead>
+                        <tr className="text-left text-gray-500">
+                          <th className="py-1"></th>
+                          <th className="py-1">Added</th>
+                          <th className="py-1">Skipped</th>
+                          <th className="py-1">Rejected</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {([
+                          ['Commands', importReport.commands],
+                          ['Tags', importReport.tags],
+                          ['Categories', importReport.categories],
+                          ['Macros', importReport.macros],
+                          ['Favorites', importReport.favorites]
+                        ] as const).map(([label, counts]) => (
+                          <tr key={label} className="border-t border-gray-100">
+                            <td className="py-1 font-medium">{label}</td>
+                            <td className="py-1 text-green-700">{counts.added}</td>
+                            <td className="py-1">{counts.skipped}</td>
+                            <td className="py-1 text-red-700">{counts.rejected}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    {importReport.errors.length > 0 && (
+                      <ul className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 text-xs space-y-1">
+                        {importReport.errors.map((message, index) => (
+                          <li key={index}>{message}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </>
+                )}
+              </div>
+              <div className="p-6 bg-gray-50">
+                <button
+                  onClick={() => setImportReport(null)}
+                  className="w-full bg-gray-200 hover:bg-gray-300 text-gray-800 px-4 py-3 rounded-lg font-medium transition-colors"
+                >
+                  Close
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Search */}
+        <div className="mb-4 relative">
+          <Search size={18} className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" />
+          <input
+            type="search"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Search names, code, tags and categories..."
+            className="w-full pl-11 pr-4 py-3 rounded-lg bg-slate-700 text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        {/* Filters */}
         <div className="mb-6 flex flex-wrap gap-2">
           <button
-            onClick={() => setActiveTag('all')}
-            className={`px-4 py-2 rounded-full font-medium transition-all ${activeTag === 'all'
+            onClick={() => setFilter(EMPTY_FILTER)}
+            className={`px-4 py-2 rounded-full font-medium transition-all ${isFilterEmpty(filter)
               ? 'bg-white text-gray-800 shadow-lg'
               : 'bg-slate-700 text-white hover:bg-slate-600'
               }`}
@@ -1125,32 +4633,78 @@ export default function DSTCommandManager() {
             All ({commands.length})
           </button>
           <button
-            onClick={() => setActiveTag('favorites')}
-            className={`px-4 py-2 rounded-full font-medium transition-all flex items-center gap-2te ${activeTag === 'favorites'
+            onClick={() => setFilter({ ...filter, favorites: !filter.favorites })}
+            className={`px-4 py-2 rounded-full font-medium transition-all flex items-center gap-2 ${filter.favorites
               ? 'bg-yellow-500 text-white shadow-lg'
               : 'bg-slate-700 text-white hover:bg-slate-600'
               }`}
           >
-            <Star size={16} fill={activeTag === 'favorites' ? 'white' : 'none'} />
-            Favorites ({getFavoritesCount()})
+            <Star size={16} fill={filter.favorites ? 'white' : 'none'} />
+            Favorites ({countWith({ ...filter, favorites: true })})
           </button>
-          {CATEGORIES.map(category => (
+          {[...views, ...viewerViews].map((view, index) => (
+            <button
+              key={`${index < views.length ? 'shared' : 'private'}-${view.id}`}
+              onClick={() => applyView(view)}
+              className={`px-4 py-2 rounded-full font-medium transition-all flex items-center gap-2 ${isViewActive(view, filter, searchQuery)
+                ? 'bg-blue-500 text-white shadow-lg'
+                : 'bg-slate-700 text-white hover:bg-slate-600'
+                }`}
+              title={index < views.length ? 'Shared view' : 'My view'}
+            >
+              <Bookmark size={16} fill={index < views.length ? 'none' : 'white'} />
+              {view.name}
+            </button>
+          ))}
+          {(!isFilterEmpty(filter) || searchQuery.trim()) && ![...views, ...viewerViews].some(view => isViewActive(view, filter, searchQuery)) && (
+            <button
+              onClick={() => setViewDraft({ scope: isAdminMode ? 'shared' : 'private', id: null, name: '' })}
+              className="px-4 py-2 rounded-full font-medium transition-all flex items-center gap-2 border border-dashed border-slate-500 text-slate-300 hover:bg-slate-700"
+              title="Save the current filters and search as a view"
+            >
+              <Plus size={16} />
+              Save view
+            </button>
+          )}
+          {filteredCommands.length > 0 && (
+            <button
+              onClick={() => {
+                const ids = filteredCommands.map(cmd => cmd.id);
+                updateShareSelection(ids, ids);
+              }}
+              className="px-4 py-2 rounded-full font-medium transition-all flex items-center gap-2 border border-dashed border-slate-500 text-slate-300 hover:bg-slate-700"
+              title="Share the commands shown as a link"
+            >
+              <Share2 size={16} />
+              Share
+            </button>
+          )}
+          {categories.map(category => (
             <button
               key={category.id}
-              onClick={() => setActiveTag(category.id)}
-              className={`px-4 py-2 rounded-full font-medium transition-all ${activeTag === category.id
+              onClick={() => setFilter(toggleFilterCategory(filter, category.id))}
+              className={`px-4 py-2 rounded-full font-medium transition-all ${filter.category === category.id
                 ? 'bg-white text-gray-800 shadow-lg'
                 : 'bg-slate-700 text-white hover:bg-slate-600'
                 }`}
             >
-              {category.name} ({commands.filter(cmd => cmd.category === category.id).length})
+              {category.name} ({countWith({ ...filter, category: category.id, uncategorized: false })})
             </button>
           ))}
+          <button
+            onClick={() => setFilter(toggleFilterUncategorized(filter))}
+            className={`px-4 py-2 rounded-full font-medium transition-all ${filter.uncategorized
+              ? 'bg-white text-gray-800 shadow-lg'
+              : 'bg-slate-700 text-white hover:bg-slate-600'
+              }`}
+          >
+            No category ({countWith({ ...filter, uncategorized: true, category: null })})
+          </button>
           {tags.map(tag => (
             <button
               key={tag.id}
-              onClick={() => setActiveTag(tag.name)}
-              className={`px-4 py-2 rounded-full font-medium transition-all ${activeTag === tag.name
+              onClick={() => setFilter(toggleFilterTag(filter, tag.name))}
+              className={`px-4 py-2 rounded-full font-medium transition-all ${filter.tags.includes(tag.name)
                 ? 'shadow-lg ring-2 ring-white'
                 : 'hover:opacity-80'
                 }`}
@@ -1159,32 +4713,133 @@ export default function DSTCommandManager() {
                 color: 'white'
               }}
             >
-              {tag.name} ({commands.filter(cmd => cmd.tags && cmd.tags.includes(tag.name)).length})
+              {tag.name} ({countWith(filter.tags.includes(tag.name) ? filter : { ...filter, tags: [...filter.tags, tag.name], untagged: false })})
             </button>
           ))}
+          {filter.tags.length > 1 && (
+            <button
+              onClick={() => setFilter({ ...filter, tagMode: filter.tagMode === 'and' ? 'or' : 'and' })}
+              className="px-4 py-2 rounded-full font-medium transition-all bg-slate-700 text-white hover:bg-slate-600"
+              title="Switch between matching any or all selected tags"
+            >
+              Tags: {filter.tagMode === 'and' ? 'match all' : 'match any'}
+            </button>
+          )}
+          <button
+            onClick={() => setFilter(toggleFilterUntagged(filter))}
+            className={`px-4 py-2 rounded-full font-medium transition-all ${filter.untagged
+              ? 'bg-white text-gray-800 shadow-lg'
+              : 'bg-slate-700 text-white hover:bg-slate-600'
+              }`}
+          >
+            No tags ({countWith({ ...filter, untagged: true, tags: [] })})
+          </button>
+          <button
+            onClick={() => setFilter({ ...filter, noImage: !filter.noImage })}
+            className={`px-4 py-2 rounded-full font-medium transition-all ${filter.noImage
+              ? 'bg-white text-gray-800 shadow-lg'
+              : 'bg-slate-700 text-white hover:bg-slate-600'
+              }`}
+          >
+            No image ({countWith({ ...filter, noImage: true })})
+          </button>
         </div>
 
+        {/* Macros */}
+        {visibleMacros.length > 0 && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6 mb-6">
+            {visibleMacros.map(macro => {
+              const steps = resolveMacro(macro, commands);
+              const missing = getMissingCommandIds(macro, commands);
+              return (
+                <div
+                  key={macro.id}
+                  onClick={() => handleMacroClick(macro)}
+                  className="bg-white rounded-lg shadow-lg p-6 transition-all cursor-pointer hover:shadow-xl hover:-translate-y-1 border-l-4 border-purple-500"
+                >
+                  <div className="flex justify-between items-center mb-3">
+                    <div className="flex items-center gap-2 text-purple-600">
+                      <Layers size={20} />
+                      <span className="text-xs font-semibold uppercase">Macro</span>
+                      {missing.length > 0 && (
+                        <span
+                          className="text-amber-500"
+                          title={`${missing.length} referenced command(s) were deleted and are skipped`}
+                        >
+                          <AlertTriangle size={18} />
+                        </span>
+                      )}
+                    </div>
+                    {isAdminMode && (
+                      <div className="flex gap-2">
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setMacroDraft({ id: macro.id, name: macro.name, commandIds: macro.commandIds });
+                          }}
+                          className="text-blue-600 hover:text-blue-700 hover:scale-110 transition-all"
+                          title="Edit macro"
+                        >
+                          <Edit2 size={18} />
+                        </button>
+                        <button
+                          onClick={(e) => handleDeleteMacro(macro, e)}
+                          className="text-red-600 hover:text-red-700 hover:scale-110 transition-all"
+                          title="Delete macro"
+                        >
+                          <Trash2 size={18} />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                  <h3 className="text-xl font-semibold text-gray-800 mb-3">{macro.name}</h3>
+                  <ol className="text-sm text-gray-600 mb-3 list-decimal list-inside">
+                    {steps.map((step, index) => (
+                      <li key={index} className={step.command ? '' : 'text-amber-700 italic'}>
+                        {step.command ? step.command.name : 'Deleted command'}
+                      </li>
+                    ))}
+                  </ol>
+                  {missing.length > 0 && (
+                    <div className="p-2 mb-3 bg-amber-50 border border-amber-200 rounded text-amber-800 text-xs">
+                      {missing.length} command(s) in this macro were deleted and will be skipped.
+                    </div>
+                  )}
+                  <div className="bg-gray-100 rounded p-3 mb-4 font-mono text-sm text-gray-700 break-all">
+                    {buildMacroCode(macro, commands)}
+                  </div>
+                  {copiedMacroId === macro.id && (
+                    <div className="text-green-600 text-sm font-semibold mb-2">
+                      ✓ Copied!
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
         {filteredCommands.length === 0 ? (
           <div className="text-center text-white text-xl mt-16">
-            {activeTag === 'all'
-              ? isAdminMode
-                ? "No commands yet. Click 'Add New Command' to get started!"
-                : "No commands yet."
-              : activeTag === 'favorites'
-                ? "No favorite commands yet. Click the star icon on any command to add it to favorites!"
-                : CATEGORIES.find(cat => cat.id === activeTag)
-                  ? isAdminMode
-                    ? `No commands in the "${CATEGORIES.find(cat => cat.id === activeTag).name}" category. Add or edit commands to assign this category.`
-                    : `No commands in the "${CATEGORIES.find(cat => cat.id === activeTag).name}" category.`
+            {searchResults
+              ? `No commands match "${searchQuery.trim()}".`
+              : isFilterEmpty(filter)
+                ? isAdminMode
+                  ? "No commands yet. Click 'Add New Command' to get started!"
+                  : "No commands yet."
+                : isFilterEmpty({ ...filter, favorites: false })
+                  ? "No favorite commands yet. Click the star icon on any command to add it to favorites!"
                   : isAdminMode
-                    ? `No commands with tag "${activeTag}". Try a different tag or add new commands.`
-                    : `No commands with tag "${activeTag}".`}
+                    ? "No commands match the selected filters. Try removing a filter or add new commands."
+                    : "No commands match the selected filters."}
           </div>
         ) : (
           <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-4 2xl:grid-cols-4 gap-6">
             {filteredCommands.map(cmd => (
               <div
                 key={cmd.id}
+                ref={observeCard}
+                data-command-id={cmd.id}
                 onClick={() => handleCardClick(cmd)}
                 className="bg-white rounded-lg shadow-lg p-6 transition-all cursor-pointer hover:shadow-xl hover:-translate-y-1 relative"
               >
@@ -1201,9 +4856,28 @@ export default function DSTCommandManager() {
                     {cmd.category && (
                       <span
                         className="px-2 py-1 rounded-full text-xs font-medium text-white"
-                        style={{ backgroundColor: CATEGORIES.find(c => c.id === cmd.category)?.color || '#6b7280' }}
+                        style={{ backgroundColor: categories.find(c => c.id === cmd.category)?.color || '#6b7280' }}
+                      >
+                        <Highlight
+                          text={categories.find(c => c.id === cmd.category)?.name || cmd.category}
+                          ranges={searchMatches.get(cmd.id)?.category}
+                        />
+                      </span>
+                    )}
+                    {isAdminMode && syntaxErrors[cmd.id] && (
+                      <span
+                        className="text-red-600"
+                        title={`Lua syntax error at line ${syntaxErrors[cmd.id].line}, column ${syntaxErrors[cmd.id].column}: ${syntaxErrors[cmd.id].message}`}
+                      >
+                        <AlertTriangle size={18} />
+                      </span>
+                    )}
+                    {isAdminMode && unknownPrefabs[cmd.id] && (
+                      <span
+                        className="text-amber-500"
+                        title={`Unknown prefab: ${unknownPrefabs[cmd.id].join(', ')}`}
                       >
-                        {CATEGORIES.find(c => c.id === cmd.category)?.name || cmd.category}
+                        <AlertTriangle size={18} />
                       </span>
                     )}
                   </div>
@@ -1244,15 +4918,17 @@ export default function DSTCommandManager() {
                         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
                       </div>
                     )}
-                    <img
-                      src={cmd.image || autoFetchedImages[cmd.id]}
+                    <StoredImage
+                      image={cmd.image || autoFetchedImages[cmd.id]}
                       alt={cmd.name}
                       className="w-40 h-40 object-contain"
                       onLoad={() => console.log('Image displayed successfully for:', cmd.name)}
                       onError={(e) => {
                         console.error('Image display error for:', cmd.name);
                         setImageErrors(prev => ({ ...prev, [cmd.id]: true }));
+                        if (!cmd.image) handleAutoImageError(cmd);
                       }}
+                      onMissing={() => setImageErrors(prev => ({ ...prev, [cmd.id]: true }))}
                     />
                   </div>
                 )}
@@ -1261,16 +4937,26 @@ export default function DSTCommandManager() {
                     <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
                   </div>
                 )}
-                {!cmd.image && !autoFetchedImages[cmd.id] && !fetchingImages[cmd.id] && imageErrors[cmd.id] && (
+                {!fetchingImages[cmd.id] && (imageErrors[cmd.id] || (!cmd.image && !autoFetchedImages[cmd.id] && imageStatus[cmd.id])) && (
                   <div className="flex justify-center mb-4 bg-gray-100 rounded p-4 text-gray-500 text-sm">
                     <div className="text-center">
                       <div>🖼️</div>
-                      <div>Image unavailable</div>
+                      <div>{IMAGE_STATUS_LABELS[(!cmd.image && imageStatus[cmd.id]) || 'broken']}</div>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          retryImageLookup(cmd);
+                        }}
+                        className="mt-1 inline-flex items-center gap-1 text-blue-600 hover:text-blue-800"
+                      >
+                        <RotateCcw size={12} />
+                        Retry
+                      </button>
                     </div>
                   </div>
                 )}
                 <h3 className="text-xl font-semibold text-gray-800 mb-3">
-                  {cmd.name}
+                  <Highlight text={cmd.name} ranges={searchMatches.get(cmd.id)?.name} />
                 </h3>
                 {cmd.tags && cmd.tags.length > 0 && (
                   <div className="flex flex-wrap gap-1 mb-3">
@@ -1282,14 +4968,14 @@ export default function DSTCommandManager() {
                           className="px-2 py-1 rounded-full text-xs font-medium text-white"
                           style={{ backgroundColor: tag.color }}
                         >
-                          {tagName}
+                          <Highlight text={tagName} ranges={searchMatches.get(cmd.id)?.tags[tagName]} />
                         </span>
                       ) : null;
                     })}
                   </div>
                 )}
                 <div className="bg-gray-100 rounded p-3 mb-4 font-mono text-sm text-gray-700 break-all">
-                  {cmd.command}
+                  <Highlight text={cmd.command} ranges={searchMatches.get(cmd.id)?.command} />
                 </div>
                 {copiedId === cmd.id && (
                   <div className="text-green-600 text-sm font-semibold mb-2">
@@ -1301,6 +4987,29 @@ export default function DSTCommandManager() {
           </div>
         )}
       </div>
+
+      {/* Confirmation Toast */}
+      {toast && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 bg-slate-900 text-white rounded-lg shadow-2xl px-4 py-3 flex items-center gap-4">
+          <span className="text-sm">{toast.message}</span>
+          {toast.undoable && history.past.length > 0 && (
+            <button
+              onClick={() => stepHistory('undo')}
+              className="text-sm font-semibold text-blue-300 hover:text-blue-200 flex items-center gap-1"
+              title="Undo (Ctrl+Z)"
+            >
+              <Undo2 size={16} />
+              Undo
+            </button>
+          )}
+          <button
+            onClick={() => setToast(null)}
+            className="text-slate-400 hover:text-white"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
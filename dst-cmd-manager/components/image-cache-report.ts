@@ -0,0 +1,50 @@
+/**
+ * Image Cache Report
+ * Describes the wiki image cache for the admin panel: how old each entry is,
+ * whether it has expired, what produced it and what it costs in
+ * localStorage.
+ */
+
+import type { ImageCacheEntry } from './library-storage';
+
+export interface ImageCacheRow {
+  key: string;
+  entry: ImageCacheEntry;
+  ageMs: number;
+  expired: boolean;
+  // Characters the entry adds to the stored cache record
+  bytes: number;
+}
+
+/**
+ * Cache entries with their age and size, newest first. Misses expire after
+ * `missMaxAgeMs`, found images after `maxAgeMs`.
+ */
+export function describeImageCache(
+  cache: Record<string, ImageCacheEntry>,
+  maxAgeMs: number,
+  missMaxAgeMs: number,
+  now = Date.now()
+): ImageCacheRow[] {
+  return Object.entries(cache)
+    .map(([key, entry]) => {
+      const ageMs = Math.max(0, now - entry.timestamp);
+      return {
+        key,
+        entry,
+        ageMs,
+        expired: ageMs >= (entry.miss ? missMaxAgeMs : maxAgeMs),
+        bytes: JSON.stringify(key).length + JSON.stringify(entry).length + 2
+      };
+    })
+    .sort((a, b) => a.ageMs - b.ageMs);
+}
+
+export function formatAge(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return `${Math.floor(hours / 24)} d ago`;
+}
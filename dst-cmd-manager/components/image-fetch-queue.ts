@@ -0,0 +1,179 @@
+/**
+ * Image Fetch Queue
+ * Schedules wiki image lookups for the whole page. Cards asking for the same
+ * cache key share one job, a few jobs run at a time with cards on screen
+ * first, throttled or failing wiki responses back the queue off, and a job is
+ * aborted as soon as no card is waiting for it.
+ */
+
+import { WikiRequestError } from './wiki-images';
+
+// Commands waiting for a job, by id
+type Owner = number;
+
+interface Job<T> {
+  key: string;
+  run: (signal: AbortSignal) => Promise<T>;
+  owners: Set<Owner>;
+  controller: AbortController;
+  attempts: number;
+  // Earliest time a retry may start
+  notBefore: number;
+  running: boolean;
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+  reject: (reason: unknown) => void;
+}
+
+export interface FetchQueue<T> {
+  // Joins the job for `key`, starting one with `run` if there is none
+  request(key: string, owner: Owner, run: (signal: AbortSignal) => Promise<T>): Promise<T>;
+  // Drops the owner from its jobs, aborting those nobody else waits for
+  release(owner: Owner): void;
+  releaseAll(): void;
+  // Jobs of visible owners start before the rest
+  setVisible(owner: Owner, visible: boolean): void;
+}
+
+const abortError = () => new DOMException('Image lookup cancelled', 'AbortError');
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+const isRetryable = (error: unknown): error is WikiRequestError =>
+  error instanceof WikiRequestError && (error.status === 429 || error.status >= 500);
+
+export function createFetchQueue<T>(options: { concurrency?: number; maxRetries?: number; baseBackoffMs?: number } = {}): FetchQueue<T> {
+  const { concurrency = 3, maxRetries = 3, baseBackoffMs = 2000 } = options;
+  const jobs = new Map<string, Job<T>>();
+  const visible = new Set<Owner>();
+  let active = 0;
+  // Set when the wiki answers 429; no job starts before then
+  let pausedUntil = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const priority = (job: Job<T>) => ([...job.owners].some(owner => visible.has(owner)) ? 0 : 1);
+
+  const pump = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    const now = Date.now();
+    while (active < concurrency) {
+      const waiting = [...jobs.values()].filter(job => !job.running);
+      if (waiting.length === 0) return;
+      const ready = waiting.filter(job => Math.max(job.notBefore, pausedUntil) <= now);
+      if (ready.length === 0) {
+        const wakeAt = Math.min(...waiting.map(job => Math.max(job.notBefore, pausedUntil)));
+        timer = setTimeout(pump, wakeAt - now);
+        return;
+      }
+      // Maps keep insertion order, so equal priorities run first come, first served
+      start(ready.reduce((first, job) => (priority(job) < priority(first) ? job : first)));
+    }
+  };
+
+  const finish = (job: Job<T>) => {
+    active--;
+    if (jobs.get(job.key) === job) jobs.delete(job.key);
+    pump();
+  };
+
+  const start = (job: Job<T>) => {
+    job.running = true;
+    active++;
+    job.run(job.controller.signal).then(
+      value => {
+        finish(job);
+        job.resolve(value);
+      },
+      error => {
+        if (!job.controller.signal.aborted && isRetryable(error) && job.attempts < maxRetries) {
+          job.attempts++;
+          job.notBefore = Date.now() + (error.retryAfterMs ?? baseBackoffMs * 2 ** (job.attempts - 1));
+          // Throttling applies to every lookup, not just this one
+          if (error.status === 429) pausedUntil = Math.max(pausedUntil, job.notBefore);
+          job.running = false;
+          active--;
+          pump();
+          return;
+        }
+        finish(job);
+        job.reject(error);
+      }
+    );
+  };
+
+  // Released jobs leave the map at once; a running one still holds its slot until it settles
+  const cancel = (job: Job<T>) => {
+    jobs.delete(job.key);
+    job.controller.abort();
+    job.reject(abortError());
+  };
+
+  return {
+    request: (key, owner, run) => {
+      let job = jobs.get(key);
+      if (!job) {
+        let resolve!: (value: T) => void;
+        let reject!: (reason: unknown) => void;
+        const promise = new Promise<T>((res, rej) => {
+          resolve = res;
+          reject = rej;
+        });
+        job = { key, run, owners: new Set(), controller: new AbortController(), attempts: 0, notBefore: 0, running: false, promise, resolve, reject };
+        jobs.set(key, job);
+      }
+      job.owners.add(owner);
+      pump();
+      return job.promise;
+    },
+
+    release: owner => {
+      visible.delete(owner);
+      for (const job of [...jobs.values()]) {
+        if (job.owners.delete(owner) && job.owners.size === 0) cancel(job);
+      }
+      pump();
+    },
+
+    releaseAll: () => {
+      visible.clear();
+      [...jobs.values()].forEach(cancel);
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+    },
+
+    setVisible: (owner, isVisible) => {
+      if (isVisible) visible.add(owner);
+      else visible.delete(owner);
+    }
+  };
+}
+
+const delay = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const handle = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(handle);
+      reject(abortError());
+    }, { once: true });
+  });
+
+/**
+ * Wraps fetch so requests start at least `minIntervalMs` apart, for use as
+ * the wiki client's fetch
+ */
+export function rateLimitFetch(minIntervalMs: number, fetchImpl: typeof fetch = (input, init) => fetch(input, init)): typeof fetch {
+  let nextSlot = 0;
+  return async (input, init) => {
+    const now = Date.now();
+    const slot = Math.max(now, nextSlot);
+    nextSlot = slot + minIntervalMs;
+    if (slot > now) await delay(slot - now, init?.signal);
+    return fetchImpl(input, init);
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * Image Processing
+ * Downsizes uploads to the size cards actually render at, crops them to a
+ * square focus area and re-encodes them as WebP in the browser. Canvas
+ * re-encoding keeps only the first frame, so animated files can instead be
+ * kept as they are.
+ */
+
+export interface CropRect {
+  x: number;
+  y: number;
+  size: number;
+}
+
+export interface ProcessOptions {
+  maxDimension: number;
+  crop: CropRect | null;
+  quality?: number;
+}
+
+// Cards render images at 160×160 CSS pixels; 320 keeps them sharp on HiDPI screens
+export const MAX_DIMENSION_OPTIONS = [160, 320, 512, 1024];
+export const DEFAULT_MAX_DIMENSION = 320;
+export const DEFAULT_QUALITY = 0.85;
+
+// Sources are decoded in memory, so very large files are refused up front
+export const MAX_SOURCE_BYTES = 20 * 1024 * 1024;
+// Limit for what is actually stored, e.g. an animated GIF kept as is
+export const MAX_STORED_BYTES = 3000000;
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+}
+
+const countSequence = (bytes: Uint8Array, sequence: number[]): number => {
+  let count = 0;
+  for (let i = 0; i <= bytes.length - sequence.length; i++) {
+    if (sequence.every((value, offset) => bytes[i + offset] === value)) count++;
+  }
+  return count;
+};
+
+const ascii = (text: string) => [...text].map(char => char.charCodeAt(0));
+
+/**
+ * Detects animated GIF (more than one graphic control block), animated WebP
+ * (ANIM chunk) and APNG (acTL chunk)
+ */
+export async function isAnimatedImage(file: Blob): Promise<boolean> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (file.type === 'image/gif') return countSequence(bytes, [0x21, 0xf9, 0x04]) > 1;
+  if (file.type === 'image/webp') return countSequence(bytes.subarray(0, 64), ascii('ANIM')) > 0;
+  if (file.type === 'image/png' || file.type === 'image/apng') {
+    // acTL must come before the first image data chunk
+    const idat = bytes.findIndex((_, i) => bytes[i] === 0x49 && bytes[i + 1] === 0x44 && bytes[i + 2] === 0x41 && bytes[i + 3] === 0x54);
+    return countSequence(bytes.subarray(0, idat === -1 ? bytes.length : idat), ascii('acTL')) > 0;
+  }
+  return false;
+}
+
+export async function readImageSize(file: Blob): Promise<{ width: number; height: number }> {
+  const bitmap = await createImageBitmap(file);
+  const size = { width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+  return size;
+}
+
+/**
+ * Largest centered square
+ */
+export function centeredSquareCrop(width: number, height: number): CropRect {
+  const size = Math.min(width, height);
+  return { x: Math.round((width - size) / 2), y: Math.round((height - size) / 2), size };
+}
+
+/**
+ * Keeps a crop inside the image
+ */
+export function clampCrop(crop: CropRect, width: number, height: number): CropRect {
+  const size = Math.max(1, Math.min(Math.round(crop.size), width, height));
+  return {
+    x: Math.min(Math.max(0, Math.round(crop.x)), width - size),
+    y: Math.min(Math.max(0, Math.round(crop.y)), height - size),
+    size
+  };
+}
+
+/**
+ * Output dimensions: the crop (or whole image) scaled down to fit
+ * maxDimension, never scaled up
+ */
+export function fitDimensions(width: number, height: number, maxDimension: number): { width: number; height: number } {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+/**
+ * Crops, downsizes and re-encodes an image as WebP. Browsers without a WebP
+ * encoder fall back to PNG.
+ */
+export async function processImage(file: Blob, options: ProcessOptions): Promise<Blob> {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const source = options.crop
+      ? clampCrop(options.crop, bitmap.width, bitmap.height)
+      : null;
+    const sourceWidth = source ? source.size : bitmap.width;
+    const sourceHeight = source ? source.size : bitmap.height;
+    const target = fitDimensions(sourceWidth, sourceHeight, options.maxDimension);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = target.width;
+    canvas.height = target.height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not supported');
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(
+      bitmap,
+      source ? source.x : 0,
+      source ? source.y : 0,
+      sourceWidth,
+      sourceHeight,
+      0,
+      0,
+      target.width,
+      target.height
+    );
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        blob => blob ? resolve(blob) : reject(new Error('Image encoding failed')),
+        'image/webp',
+        options.quality ?? DEFAULT_QUALITY
+      );
+    });
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Image Store
+ * Uploaded image binaries live in IndexedDB instead of the localStorage
+ * library blob. Commands reference them as `idb:<id>` in `Command.image`;
+ * cards resolve references lazily to object URLs. Exports embed the binaries
+ * as data URLs again so files stay self-contained.
+ */
+
+import type { Command } from './types';
+
+const DB_NAME = 'dst-command-manager-images';
+const DB_VERSION = 1;
+const STORE_NAME = 'images';
+const REF_PREFIX = 'idb:';
+
+export interface StoredImage {
+  id: string;
+  blob: Blob;
+  createdAt: number;
+}
+
+export const isImageRef = (image: string | null | undefined): image is string =>
+  typeof image === 'string' && image.startsWith(REF_PREFIX);
+
+export const isDataUrl = (image: string | null | undefined): image is string =>
+  typeof image === 'string' && image.startsWith('data:');
+
+const idFromRef = (ref: string) => ref.slice(REF_PREFIX.length);
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Stores a binary and returns the reference to put on the command
+ */
+export async function putImage(blob: Blob): Promise<string> {
+  const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  const record: StoredImage = { id, blob, createdAt: Date.now() };
+  await runRequest('readwrite', store => store.put(record));
+  return REF_PREFIX + id;
+}
+
+export async function getImageBlob(ref: string): Promise<Blob | null> {
+  const record = await runRequest<StoredImage | undefined>('readonly', store => store.get(idFromRef(ref)));
+  return record ? record.blob : null;
+}
+
+export async function deleteImage(ref: string): Promise<void> {
+  await runRequest('readwrite', store => store.delete(idFromRef(ref)));
+}
+
+export async function listImageRefs(): Promise<string[]> {
+  const keys = await runRequest('readonly', store => store.getAllKeys());
+  return keys.map(key => REF_PREFIX + String(key));
+}
+
+// Object URLs are created once per reference and reused by every card
+const objectUrls = new Map<string, Promise<string | null>>();
+
+/**
+ * Resolves an image for display: references become object URLs, anything
+ * else (wiki URLs, data URLs) is returned unchanged
+ */
+export function resolveImageUrl(image: string): Promise<string | null> {
+  if (!isImageRef(image)) return Promise.resolve(image || null);
+  if (!objectUrls.has(image)) {
+    objectUrls.set(image, getImageBlob(image)
+      .then(blob => blob ? URL.createObjectURL(blob) : null)
+      .catch(error => {
+        console.error('Error loading stored image:', error);
+        objectUrls.delete(image);
+        return null;
+      }));
+  }
+  return objectUrls.get(image)!;
+}
+
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, payload] = dataUrl.split(',');
+  const type = header.match(/^data:([^;]+)/)?.[1] || 'application/octet-stream';
+  const isBase64 = header.endsWith(';base64');
+  const text = isBase64 ? atob(payload) : decodeURIComponent(payload);
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i);
+  }
+  return new Blob([bytes], { type });
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Moves base64 images embedded in commands into the store. Returns only the
+ * commands that changed, with their image replaced by a reference.
+ */
+export async function extractInlineImages(commands: Command[]): Promise<Command[]> {
+  const changed: Command[] = [];
+  for (const cmd of commands) {
+    if (!isDataUrl(cmd.image)) continue;
+    const ref = await putImage(dataUrlToBlob(cmd.image));
+    changed.push({ ...cmd, image: ref });
+  }
+  return changed;
+}
+
+/**
+ * Replaces image references with data URLs, for exports. Images missing from
+ * the store are dropped so the command falls back to the wiki image.
+ */
+export async function embedStoredImages(commands: Command[]): Promise<Command[]> {
+  const embedded: Command[] = [];
+  for (const cmd of commands) {
+    if (!isImageRef(cmd.image)) {
+      embedded.push(cmd);
+      continue;
+    }
+    const blob = await getImageBlob(cmd.image);
+    embedded.push({ ...cmd, image: blob ? await blobToDataUrl(blob) : '' });
+  }
+  return embedded;
+}
+
+// Ids start with their creation time, see putImage
+const createdAtFromRef = (ref: string) => parseInt(idFromRef(ref).split('-')[0], 36) || 0;
+
+/**
+ * Deletes stored images nothing refers to any more (replaced uploads,
+ * purged commands, editor sessions that were cancelled). Recent uploads are
+ * kept since an editor in another tab may not have saved them yet.
+ */
+export async function pruneImages(referenced: Set<string>, minAgeMs = 24 * 60 * 60 * 1000): Promise<number> {
+  let removed = 0;
+  for (const ref of await listImageRefs()) {
+    if (!referenced.has(ref) && Date.now() - createdAtFromRef(ref) > minAgeMs) {
+      await deleteImage(ref);
+      removed++;
+    }
+  }
+  return removed;
+}
+
+/**
+ * Number and total size of the stored binaries, for the storage meter
+ */
+export async function measureStoredImages(): Promise<{ count: number; bytes: number }> {
+  const records = await runRequest<StoredImage[]>('readonly', store => store.getAll());
+  return { count: records.length, bytes: records.reduce((sum, record) => sum + record.blob.size, 0) };
+}
+
+/**
+ * Moves the data URL images of commands received from the server into the
+ * store. A command whose local copy already holds the same image keeps that
+ * reference, so pulling an unchanged library stores nothing new.
+ */
+export async function storeSharedImages(commands: Command[], local: Command[]): Promise<Command[]> {
+  const localRefs = new Map(local.filter(cmd => isImageRef(cmd.image)).map(cmd => [cmd.id, cmd.image]));
+  const stored: Command[] = [];
+  for (const cmd of commands) {
+    if (!isDataUrl(cmd.image)) {
+      stored.push(cmd);
+      continue;
+    }
+    const localRef = localRefs.get(cmd.id);
+    const localBlob = localRef ? await getImageBlob(localRef) : null;
+    const unchanged = localRef && localBlob && await blobToDataUrl(localBlob) === cmd.image;
+    stored.push({ ...cmd, image: unchanged ? localRef : await putImage(dataUrlToBlob(cmd.image)) });
+  }
+  return stored;
+}
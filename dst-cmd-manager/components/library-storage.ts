@@ -0,0 +1,334 @@
+/**
+ * Library Storage
+ * The single persistence layer for the command library: one schema-versioned
+ * JSON blob in localStorage, addressed with `prefix:id` keys. On startup a
+ * migration runner upgrades older blobs and folds in data written by legacy
+ * layouts (per-record `dst_app_` keys and `dst_img_` image cache keys), so
+ * switching implementations never loses a library.
+ */
+
+export const STORAGE_KEY = 'dst-command-manager-data';
+export const IMAGE_CACHE_KEY = 'dst-image-cache';
+export const SCHEMA_VERSION = 3;
+
+// Layouts written by earlier implementations
+export const LEGACY_ADAPTER_PREFIX = 'dst_app_';
+export const LEGACY_IMAGE_PREFIX = 'dst_img_';
+
+// Every key the app writes starts with `dst-`, or `dst_` for legacy layouts
+export const isAppStorageKey = (key: string) => /^dst[-_]/.test(key);
+
+// Key prefix -> store inside the persisted blob
+export const STORES: Record<string, string> = {
+  dst: 'commands',
+  dsttag: 'tags',
+  dstcat: 'categories',
+  dstview: 'views',
+  dstmacro: 'macros',
+  dsttrash: 'trash',
+  dstrev: 'revisions',
+  dstsetting: 'settings'
+};
+
+export interface LibraryData {
+  schemaVersion: number;
+  [store: string]: Record<string, string> | number;
+}
+
+export interface ImageCacheEntry {
+  url: string;
+  timestamp: number;
+  // Which lookup strategy found the image, e.g. "prefab-file: File:Gold_Nugget.png"
+  source?: string;
+  // Set for failed lookups: nothing was found, or the image found would not load
+  miss?: ImageMiss;
+}
+
+export type ImageMiss = 'not-found' | 'broken';
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  applied: string[];
+}
+
+interface Migration {
+  version: number;
+  description: string;
+  // Checked on every start, not just once: a legacy implementation may have
+  // written more data since the last upgrade
+  detect?: (backend: Storage) => boolean;
+  // Returns the upgraded blob and the legacy keys that can be removed once
+  // it has been saved
+  migrate: (data: LibraryData, backend: Storage) => { data: LibraryData; obsoleteKeys: string[] };
+}
+
+const storeOf = (data: LibraryData, store: string) => data[store] as Record<string, string>;
+
+const keysWithPrefix = (backend: Storage, prefix: string): string[] => {
+  const keys: string[] = [];
+  for (let i = 0; i < backend.length; i++) {
+    const key = backend.key(i);
+    if (key && key.startsWith(prefix)) keys.push(key);
+  }
+  return keys;
+};
+
+// Record keys written by storage-adapter.ts, ignoring its availability probes
+const legacyAdapterKeys = (backend: Storage) =>
+  keysWithPrefix(backend, LEGACY_ADAPTER_PREFIX).filter(key => {
+    const [prefix] = key.slice(LEGACY_ADAPTER_PREFIX.length).split(':');
+    return prefix in STORES;
+  });
+
+const withStores = (data: Partial<LibraryData>): LibraryData => {
+  const normalized = { ...data, schemaVersion: data.schemaVersion ?? 0 } as LibraryData;
+  for (const store of Object.values(STORES)) {
+    normalized[store] = (data[store] as Record<string, string>) || {};
+  }
+  return normalized;
+};
+
+const readImageCache = (backend: Storage): Record<string, ImageCacheEntry> => {
+  try {
+    const data = backend.getItem(IMAGE_CACHE_KEY);
+    return data ? JSON.parse(data) : {};
+  } catch (e) {
+    console.error('Error reading image cache:', e);
+    return {};
+  }
+};
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Adopt the single-blob layout',
+    // Blobs from before versioning only lack stores added since
+    migrate: data => ({ data: withStores(data), obsoleteKeys: [] })
+  },
+  {
+    version: 2,
+    description: `Merge per-record ${LEGACY_ADAPTER_PREFIX} keys written by storage-adapter.ts`,
+    detect: backend => legacyAdapterKeys(backend).length > 0,
+    migrate: (data, backend) => {
+      const obsoleteKeys = legacyAdapterKeys(backend);
+      for (const key of obsoleteKeys) {
+        const [prefix, id] = key.slice(LEGACY_ADAPTER_PREFIX.length).split(':');
+        const value = backend.getItem(key);
+        const store = storeOf(data, STORES[prefix]);
+        // Records already in the blob are newer than the legacy copy
+        if (value && id && !(id in store)) {
+          store[id] = value;
+        }
+      }
+      return { data, obsoleteKeys };
+    }
+  },
+  {
+    version: 3,
+    description: `Move ${LEGACY_IMAGE_PREFIX} image cache keys into ${IMAGE_CACHE_KEY}`,
+    detect: backend => keysWithPrefix(backend, LEGACY_IMAGE_PREFIX).length > 0,
+    migrate: (data, backend) => {
+      const obsoleteKeys = keysWithPrefix(backend, LEGACY_IMAGE_PREFIX);
+      const cache = readImageCache(backend);
+      for (const key of obsoleteKeys) {
+        try {
+          const entry = JSON.parse(backend.getItem(key) || 'null');
+          const name = key.slice(LEGACY_IMAGE_PREFIX.length);
+          if (entry?.url && (!cache[name] || cache[name].timestamp < entry.timestamp)) {
+            cache[name] = { url: entry.url, timestamp: entry.timestamp || 0 };
+          }
+        } catch {
+          // Unreadable cache entries are simply dropped
+        }
+      }
+      backend.setItem(IMAGE_CACHE_KEY, JSON.stringify(cache));
+      return { data, obsoleteKeys };
+    }
+  }
+];
+
+/**
+ * Upgrades stored data to the current schema. Legacy keys are only removed
+ * after the upgraded blob has been written.
+ */
+export function runMigrations(backend: Storage = localStorage): MigrationReport {
+  const raw = backend.getItem(STORAGE_KEY);
+  let data: LibraryData;
+  try {
+    data = withStores(raw ? JSON.parse(raw) : { schemaVersion: 0 });
+    // Blobs written before versioning have no schemaVersion
+    if (raw && !JSON.parse(raw).schemaVersion) data.schemaVersion = 1;
+  } catch (e) {
+    console.error('Stored library is unreadable, leaving it untouched:', e);
+    return { fromVersion: 0, toVersion: 0, applied: [] };
+  }
+
+  const fromVersion = data.schemaVersion;
+  if (fromVersion > SCHEMA_VERSION) {
+    console.warn(`Stored library uses schema ${fromVersion}, newer than supported ${SCHEMA_VERSION}`);
+    return { fromVersion, toVersion: fromVersion, applied: [] };
+  }
+
+  const applied: string[] = [];
+  const obsoleteKeys: string[] = [];
+  for (const migration of MIGRATIONS) {
+    if (data.schemaVersion >= migration.version && !migration.detect?.(backend)) continue;
+    const result = migration.migrate(data, backend);
+    data = result.data;
+    obsoleteKeys.push(...result.obsoleteKeys);
+    applied.push(migration.description);
+  }
+
+  if (applied.length === 0 && raw) {
+    return { fromVersion, toVersion: fromVersion, applied };
+  }
+
+  data.schemaVersion = SCHEMA_VERSION;
+  backend.setItem(STORAGE_KEY, JSON.stringify(data));
+  for (const key of obsoleteKeys) {
+    backend.removeItem(key);
+  }
+  return { fromVersion, toVersion: SCHEMA_VERSION, applied };
+}
+
+let migrated = false;
+
+/**
+ * Runs the migrations once per page load
+ */
+export function ensureMigrated(): void {
+  if (migrated || typeof localStorage === 'undefined') return;
+  migrated = true;
+  try {
+    const report = runMigrations();
+    if (report.applied.length > 0) {
+      console.log(`Storage upgraded from schema ${report.fromVersion} to ${report.toVersion}:`, report.applied);
+    }
+  } catch (e) {
+    console.error('Storage migration failed:', e);
+  }
+}
+
+const getData = (): LibraryData => {
+  try {
+    const data = localStorage.getItem(STORAGE_KEY);
+    return withStores(data ? JSON.parse(data) : { schemaVersion: SCHEMA_VERSION });
+  } catch (e) {
+    console.error('Error reading from localStorage:', e);
+    return withStores({ schemaVersion: SCHEMA_VERSION });
+  }
+};
+
+const saveData = (data: LibraryData): boolean => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...data, schemaVersion: SCHEMA_VERSION }));
+    return true;
+  } catch (e) {
+    console.error('Error writing to localStorage:', e);
+    return false;
+  }
+};
+
+const storeFor = (prefix: string) => STORES[prefix.replace(/:$/, '')] || 'commands';
+
+export const storage = {
+  get: async (key: string): Promise<{ value: string } | null> => {
+    const [prefix, id] = key.split(':');
+    const store = storeOf(getData(), storeFor(prefix));
+    return store[id] ? { value: store[id] } : null;
+  },
+
+  set: async (key: string, value: string): Promise<boolean> => {
+    const data = getData();
+    const [prefix, id] = key.split(':');
+    storeOf(data, storeFor(prefix))[id] = value;
+    return saveData(data);
+  },
+
+  delete: async (key: string): Promise<boolean> => {
+    const data = getData();
+    const [prefix, id] = key.split(':');
+    const store = storeOf(data, storeFor(prefix));
+    if (store[id]) {
+      delete store[id];
+      return saveData(data);
+    }
+    return true;
+  },
+
+  list: async (prefix: string): Promise<{ keys: string[] }> => {
+    const store = storeOf(getData(), storeFor(prefix));
+    return { keys: Object.keys(store).map(id => `${prefix}${id}`) };
+  },
+
+  // Replaces every record under a prefix in a single write
+  replaceAll: async (prefix: string, records: Record<string, string>): Promise<boolean> => {
+    const data = getData();
+    data[storeFor(prefix)] = { ...records };
+    return saveData(data);
+  },
+
+  clear: async (): Promise<boolean> => {
+    try {
+      localStorage.removeItem(STORAGE_KEY);
+      return true;
+    } catch (e) {
+      console.error('Error clearing storage:', e);
+      return false;
+    }
+  }
+};
+
+const updateImageCache = (update: (cache: Record<string, ImageCacheEntry>) => void) => {
+  try {
+    const cache = readImageCache(localStorage);
+    update(cache);
+    localStorage.setItem(IMAGE_CACHE_KEY, JSON.stringify(cache));
+  } catch (e) {
+    console.error('Cache write error:', e);
+  }
+};
+
+// Wiki image URLs and failed lookups, cached in a single record keyed by
+// lowercase item name
+export const imageCache = {
+  get: (name: string, maxAgeMs: number): string | null => {
+    const entry = readImageCache(localStorage)[name];
+    return entry && !entry.miss && Date.now() - entry.timestamp < maxAgeMs ? entry.url : null;
+  },
+
+  set: (name: string, url: string, source?: string) => {
+    updateImageCache(cache => {
+      cache[name] = { url, timestamp: Date.now(), ...(source && { source }) };
+    });
+  },
+
+  getMiss: (name: string, maxAgeMs: number): ImageMiss | null => {
+    const entry = readImageCache(localStorage)[name];
+    return entry?.miss && Date.now() - entry.timestamp < maxAgeMs ? entry.miss : null;
+  },
+
+  // `url` is the image that failed to load, for broken entries
+  setMiss: (name: string, miss: ImageMiss, url = '') => {
+    updateImageCache(cache => {
+      cache[name] = { url, timestamp: Date.now(), miss };
+    });
+  },
+
+  entries: (): Record<string, ImageCacheEntry> => readImageCache(localStorage),
+
+  remove: (...names: string[]) => {
+    updateImageCache(cache => {
+      for (const name of names) delete cache[name];
+    });
+  },
+
+  clear: () => {
+    try {
+      localStorage.removeItem(IMAGE_CACHE_KEY);
+    } catch (e) {
+      console.error('Cache clear error:', e);
+    }
+  }
+};
@@ -0,0 +1,321 @@
+/**
+ * Library Sync
+ * Shares commands, tags and categories through the app/api route handlers
+ * when built with NEXT_PUBLIC_SERVER_STORAGE=true. Writes land in
+ * localStorage first, so the UI updates at once, and are pushed to the server
+ * in the background. Writes the server has not received wait in an outbox,
+ * which keeps the app usable offline and catches up once it is reachable.
+ * Uploaded images only exist in this browser's image store, so commands are
+ * sent with their images embedded as data URLs, and pulled images are moved
+ * back into the store rather than kept in localStorage. The server only accepts
+ * writes carrying its library token, which is kept per browser.
+ */
+
+import { embedStoredImages, storeSharedImages } from './image-store';
+import { storage } from './library-storage';
+import type { Command } from './types';
+
+export const SERVER_STORAGE_ENABLED = process.env.NEXT_PUBLIC_SERVER_STORAGE === 'true';
+
+const API_BASE = '/api';
+const OUTBOX_KEY = 'dst-server-outbox';
+const TOKEN_KEY = 'dst-server-token';
+const RETRY_INTERVAL_MS = 30000;
+
+// Key prefix -> API collection; everything else stays in this browser
+const COLLECTIONS: Record<string, string> = {
+  dst: 'commands',
+  dsttag: 'tags',
+  dstcat: 'categories'
+};
+
+interface PendingWrite {
+  collection: string;
+  id: string;
+  // null deletes the record
+  value: string | null;
+}
+
+export type SyncEvent =
+  | { type: 'offline'; pending: number }
+  | { type: 'online'; synced: number }
+  | { type: 'rejected'; message: string }
+  // Writes need a (different) library token; they stay queued until one is set
+  | { type: 'unauthorized'; message: string };
+
+export type PullResult = 'disabled' | 'pulled' | 'seeded' | 'offline' | 'unauthorized';
+
+class SyncRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'SyncRequestError';
+  }
+}
+
+const listeners = new Set<(event: SyncEvent) => void>();
+
+export function onSyncEvent(listener: (event: SyncEvent) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+const emit = (event: SyncEvent) => listeners.forEach(listener => listener(event));
+
+const readOutbox = (): PendingWrite[] => {
+  try {
+    return JSON.parse(localStorage.getItem(OUTBOX_KEY) || '[]');
+  } catch (e) {
+    console.error('Error reading sync outbox:', e);
+    return [];
+  }
+};
+
+const writeOutbox = (outbox: PendingWrite[]) => {
+  if (outbox.length > 0) {
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(outbox));
+  } else {
+    localStorage.removeItem(OUTBOX_KEY);
+  }
+};
+
+const sameRecord = (a: PendingWrite, b: PendingWrite) => a.collection === b.collection && a.id === b.id;
+
+// Only the latest write per record needs to reach the server
+const enqueue = (write: PendingWrite) => {
+  writeOutbox([...readOutbox().filter(pending => !sameRecord(pending, write)), write]);
+};
+
+const isUnauthorized = (error: unknown): error is SyncRequestError =>
+  error instanceof SyncRequestError && (error.status === 401 || error.status === 403);
+
+export const getServerToken = () => localStorage.getItem(TOKEN_KEY) || '';
+
+const request = async (path: string, init: RequestInit = {}) => {
+  const token = getServerToken();
+  const headers = new Headers(init.headers);
+  if (token) headers.set('Authorization', `Bearer ${token}`);
+  const response = await fetch(`${API_BASE}${path}`, { cache: 'no-store', ...init, headers });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new SyncRequestError(body?.error || `Server responded with ${response.status}`, response.status);
+  }
+  return response;
+};
+
+// Records as teammates should receive them: `idb:` image references are
+// replaced with the image itself
+const toShared = async (collection: string, record: string): Promise<string> => {
+  if (collection !== COLLECTIONS.dst) return record;
+  const [command] = await embedStoredImages([JSON.parse(record) as Command]);
+  return JSON.stringify(command);
+};
+
+// Pulled commands as this browser keeps them: images go to the image store,
+// or stay embedded if it is unavailable
+const toLocal = async (commands: Command[]): Promise<Command[]> => {
+  try {
+    const local: Command[] = [];
+    for (const key of (await storage.list('dst:')).keys) {
+      const record = await storage.get(key);
+      if (record) local.push(JSON.parse(record.value));
+    }
+    return await storeSharedImages(commands, local);
+  } catch (error) {
+    console.error('Error moving pulled images to the image store:', error);
+    return commands;
+  }
+};
+
+const send = async (write: PendingWrite) =>
+  request(`/${write.collection}/${encodeURIComponent(write.id)}`, write.value === null
+    ? { method: 'DELETE' }
+    : { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: await toShared(write.collection, write.value) });
+
+// Events fire on transitions only, not for every write made while offline
+let offline = false;
+let syncedWhileRecovering = 0;
+
+const markOffline = () => {
+  if (!offline) {
+    offline = true;
+    syncedWhileRecovering = 0;
+    emit({ type: 'offline', pending: readOutbox().length });
+  }
+};
+
+const markOnline = () => {
+  if (offline) {
+    offline = false;
+    emit({ type: 'online', synced: syncedWhileRecovering });
+  }
+};
+
+// Set until a new token is saved, so the admin is asked once, not on every retry
+let unauthorized = false;
+
+const markUnauthorized = (error: SyncRequestError) => {
+  if (!unauthorized) {
+    unauthorized = true;
+    emit({ type: 'unauthorized', message: error.message });
+  }
+};
+
+let flushing: Promise<boolean> | null = null;
+
+/**
+ * Sends queued writes in order. Resolves true once the outbox is empty;
+ * stops at the first write the server cannot be reached for.
+ */
+export function flushOutbox(): Promise<boolean> {
+  if (!SERVER_STORAGE_ENABLED) return Promise.resolve(true);
+  if (!flushing) {
+    flushing = (async () => {
+      let write: PendingWrite | undefined;
+      while ((write = readOutbox()[0])) {
+        try {
+          await send(write);
+          syncedWhileRecovering++;
+        } catch (error) {
+          // Server errors, network failures and missing tokens are retried;
+          // a rejected record never will be accepted, so it is dropped
+          if (isUnauthorized(error)) {
+            console.error('Server refused write without a valid token:', error);
+            markUnauthorized(error);
+            return false;
+          }
+          if (!(error instanceof SyncRequestError) || error.status >= 500) {
+            console.error('Sync failed, will retry:', error);
+            markOffline();
+            return false;
+          }
+          console.error('Server rejected write:', write, error);
+          emit({ type: 'rejected', message: `The server rejected a change to ${write.collection} ${write.id}: ${error.message}` });
+        }
+        // A newer write for the same record may have been queued meanwhile
+        const sent = write;
+        writeOutbox(readOutbox().filter(pending => !(sameRecord(pending, sent) && pending.value === sent.value)));
+      }
+      markOnline();
+      return true;
+    })().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+}
+
+const track = (key: string, value: string | null) => {
+  if (!SERVER_STORAGE_ENABLED) return;
+  const [prefix, id] = key.split(':');
+  if (!(prefix in COLLECTIONS) || !id) return;
+  enqueue({ collection: COLLECTIONS[prefix], id, value });
+  void flushOutbox();
+};
+
+/**
+ * Same interface as `storage`; shared records are also queued for the server
+ */
+export const syncedStorage = {
+  ...storage,
+
+  set: async (key: string, value: string): Promise<boolean> => {
+    const saved = await storage.set(key, value);
+    if (saved) track(key, value);
+    return saved;
+  },
+
+  delete: async (key: string): Promise<boolean> => {
+    const deleted = await storage.delete(key);
+    if (deleted) track(key, null);
+    return deleted;
+  }
+};
+
+// The first browser to reach an empty server uploads its library
+const seedServer = async () => {
+  const body: Record<string, unknown[]> = {};
+  for (const [prefix, collection] of Object.entries(COLLECTIONS)) {
+    const { keys } = await storage.list(`${prefix}:`);
+    body[collection] = [];
+    for (const key of keys) {
+      const record = await storage.get(key);
+      if (record) body[collection].push(JSON.parse(await toShared(collection, record.value)));
+    }
+  }
+  await request('/library', { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+};
+
+/**
+ * Replaces the local copy of the shared records with the server's. Queued
+ * local writes are sent first; while they cannot be, the local copy is kept.
+ */
+export async function pullFromServer(): Promise<PullResult> {
+  if (!SERVER_STORAGE_ENABLED) return 'disabled';
+  if (!(await flushOutbox())) return unauthorized ? 'unauthorized' : 'offline';
+
+  try {
+    const library = await (await request('/library')).json();
+    if (!library.initialized) {
+      try {
+        await seedServer();
+        return 'seeded';
+      } catch (error) {
+        // Another browser seeded it first
+        if (error instanceof SyncRequestError && error.status === 409) return pullFromServer();
+        if (isUnauthorized(error)) {
+          markUnauthorized(error);
+          return 'unauthorized';
+        }
+        throw error;
+      }
+    }
+
+    for (const [prefix, collection] of Object.entries(COLLECTIONS)) {
+      const pulled = library[collection] as { id: number | string }[];
+      const records: Record<string, string> = {};
+      for (const record of collection === COLLECTIONS.dst ? await toLocal(pulled as Command[]) : pulled) {
+        records[String(record.id)] = JSON.stringify(record);
+      }
+      await storage.replaceAll(`${prefix}:`, records);
+    }
+    markOnline();
+    return 'pulled';
+  } catch (error) {
+    console.error('Error loading library from server:', error);
+    markOffline();
+    return 'offline';
+  }
+}
+
+/**
+ * Saves the token sent with writes; an empty token removes it. Call
+ * pullFromServer afterwards to send what is queued.
+ */
+export function setServerToken(token: string) {
+  if (token) {
+    localStorage.setItem(TOKEN_KEY, token);
+  } else {
+    localStorage.removeItem(TOKEN_KEY);
+  }
+  unauthorized = false;
+}
+
+/**
+ * Retries queued writes when the browser comes back online and periodically
+ * while any are pending and a token refusal is not waiting on the admin.
+ * Returns a cleanup function.
+ */
+export function startSyncRetries(): () => void {
+  if (!SERVER_STORAGE_ENABLED) return () => {};
+  const retry = () => {
+    if (readOutbox().length > 0 && !unauthorized) void flushOutbox();
+  };
+  window.addEventListener('online', retry);
+  const timer = setInterval(retry, RETRY_INTERVAL_MS);
+  return () => {
+    window.removeEventListener('online', retry);
+    clearInterval(timer);
+  };
+}
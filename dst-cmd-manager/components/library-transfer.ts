@@ -0,0 +1,374 @@
+/**
+ * Library Transfer
+ * Builds, validates and merges versioned JSON exports of the command library
+ * so it can be moved between browsers and machines
+ */
+
+import type { Category, Command, Macro, Tag, ViewerFavorites } from './types';
+
+export const LIBRARY_FORMAT = 'dst-command-library';
+export const LIBRARY_SCHEMA_VERSION = 1;
+
+export interface LibraryDocument {
+  format: typeof LIBRARY_FORMAT;
+  version: number;
+  exportedAt: string;
+  commands: Command[];
+  tags: Tag[];
+  categories: Category[];
+  macros: Macro[];
+  viewerFavorites: ViewerFavorites;
+}
+
+export interface ImportCounts {
+  added: number;
+  skipped: number;
+  rejected: number;
+}
+
+export interface ImportReport {
+  commands: ImportCounts;
+  tags: ImportCounts;
+  categories: ImportCounts;
+  macros: ImportCounts;
+  favorites: ImportCounts;
+  errors: string[];
+}
+
+export interface ImportResult {
+  commands: Command[];
+  tags: Tag[];
+  categories: Category[];
+  macros: Macro[];
+  viewerFavorites: ViewerFavorites;
+  addedCommands: Command[];
+  addedTags: Tag[];
+  addedCategories: Category[];
+  addedMacros: Macro[];
+  report: ImportReport;
+}
+
+export class LibraryImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LibraryImportError';
+  }
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const emptyCounts = (): ImportCounts => ({ added: 0, skipped: 0, rejected: 0 });
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Builds an export document from the current library state
+ */
+export function buildLibraryExport(
+  commands: Command[],
+  tags: Tag[],
+  categories: Category[],
+  macros: Macro[],
+  viewerFavorites: ViewerFavorites
+): LibraryDocument {
+  return {
+    format: LIBRARY_FORMAT,
+    version: LIBRARY_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    commands,
+    tags,
+    categories,
+    macros,
+    viewerFavorites
+  };
+}
+
+/**
+ * Upgrades older documents to the current schema version.
+ * Version 0 is the raw `dst-command-manager-data` localStorage blob,
+ * where records are JSON strings keyed by id.
+ */
+function migrateDocument(raw: Record<string, unknown>): Record<string, unknown> {
+  let doc = raw;
+  const version = typeof doc.version === 'number' ? doc.version : 0;
+
+  if (version > LIBRARY_SCHEMA_VERSION) {
+    throw new LibraryImportError(
+      `This file was exported by a newer version (schema ${version}). Supported up to schema ${LIBRARY_SCHEMA_VERSION}.`
+    );
+  }
+
+  if (version === 0) {
+    if (!isObject(doc.commands) && !Array.isArray(doc.commands)) {
+      throw new LibraryImportError('File is not a DST command library export.');
+    }
+    const unpack = (store: unknown): unknown[] => {
+      if (Array.isArray(store)) return store;
+      if (!isObject(store)) return [];
+      return Object.values(store).map(value => {
+        if (typeof value !== 'string') return value;
+        try {
+          return JSON.parse(value);
+        } catch {
+          return value;
+        }
+      });
+    };
+    doc = {
+      format: LIBRARY_FORMAT,
+      version: 1,
+      exportedAt: new Date(0).toISOString(),
+      commands: unpack(doc.commands),
+      tags: unpack(doc.tags),
+      categories: [],
+      macros: [],
+      viewerFavorites: {}
+    };
+  }
+
+  if (doc.format !== LIBRARY_FORMAT) {
+    throw new LibraryImportError('File is not a DST command library export.');
+  }
+
+  return doc;
+}
+
+export function validateCommand(value: unknown): Command | string {
+  if (!isObject(value)) return 'entry is not an object';
+  const { id, name, command, image, tags, category, favorite, createdAt, updatedAt } = value;
+  if (typeof id !== 'number' || !Number.isFinite(id)) return 'missing numeric id';
+  if (typeof name !== 'string' || !name.trim()) return `command ${id} has no name`;
+  if (typeof command !== 'string' || !command.trim()) return `"${name}" has no command code`;
+  if (image !== undefined && image !== null && typeof image !== 'string') return `"${name}" has an invalid image`;
+  if (tags !== undefined && (!Array.isArray(tags) || tags.some(t => typeof t !== 'string'))) {
+    return `"${name}" has invalid tags`;
+  }
+  if (category !== undefined && category !== null && typeof category !== 'string') {
+    return `"${name}" has an invalid category`;
+  }
+  return {
+    id,
+    name: name.trim(),
+    command: command.trim(),
+    image: typeof image === 'string' ? image : '',
+    tags: Array.isArray(tags) ? (tags as string[]) : [],
+    category: typeof category === 'string' ? category : null,
+    favorite: favorite === true,
+    ...(typeof createdAt === 'string' && { createdAt }),
+    ...(typeof updatedAt === 'string' && { updatedAt })
+  };
+}
+
+export function validateTag(value: unknown): Tag | string {
+  if (!isObject(value)) return 'entry is not an object';
+  const { id, name, color } = value;
+  if (typeof id !== 'number' || !Number.isFinite(id)) return 'missing numeric id';
+  if (typeof name !== 'string' || !name.trim()) return `tag ${id} has no name`;
+  if (typeof color !== 'string' || !HEX_COLOR.test(color)) return `tag "${name}" has an invalid color`;
+  return { id, name: name.trim(), color };
+}
+
+export function validateCategory(value: unknown): Category | string {
+  if (!isObject(value)) return 'entry is not an object';
+  const { id, name, color, order } = value;
+  if (typeof id !== 'string' || !id.trim()) return 'missing category id';
+  if (typeof name !== 'string' || !name.trim()) return `category ${id} has no name`;
+  if (typeof color !== 'string' || !HEX_COLOR.test(color)) return `category "${name}" has an invalid color`;
+  return { id, name: name.trim(), color, order: typeof order === 'number' ? order : 0 };
+}
+
+function validateMacro(value: unknown): Macro | string {
+  if (!isObject(value)) return 'entry is not an object';
+  const { id, name, commandIds } = value;
+  if (typeof id !== 'number' || !Number.isFinite(id)) return 'missing numeric id';
+  if (typeof name !== 'string' || !name.trim()) return `macro ${id} has no name`;
+  if (!Array.isArray(commandIds) || commandIds.some(c => typeof c !== 'number')) {
+    return `macro "${name}" has invalid commands`;
+  }
+  return { id, name: name.trim(), commandIds: commandIds as number[] };
+}
+
+/**
+ * Parses an export file and validates its shape
+ * Throws LibraryImportError when the document as a whole is unusable
+ */
+export function parseLibraryDocument(text: string): Record<string, unknown> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new LibraryImportError('File is not valid JSON.');
+  }
+  if (!isObject(raw)) {
+    throw new LibraryImportError('File is not a DST command library export.');
+  }
+  return migrateDocument(raw);
+}
+
+/**
+ * Merges a parsed document into the existing library.
+ * Commands identical to an existing one (same name and code) and tags with an
+ * existing name are skipped; invalid records are rejected; new records get
+ * fresh ids so they never overwrite local data. `reservedCommandId` is the
+ * highest command id already taken, including trashed commands (see
+ * maxCommandId); new command ids start above it.
+ */
+export function mergeLibraryImport(
+  doc: Record<string, unknown>,
+  existing: {
+    commands: Command[];
+    tags: Tag[];
+    categories: Category[];
+    macros: Macro[];
+    viewerFavorites: ViewerFavorites;
+    reservedCommandId: number;
+  }
+): ImportResult {
+  const report: ImportReport = {
+    commands: emptyCounts(),
+    tags: emptyCounts(),
+    categories: emptyCounts(),
+    macros: emptyCounts(),
+    favorites: emptyCounts(),
+    errors: []
+  };
+
+  const asList = (value: unknown, label: string): unknown[] => {
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) {
+      report.errors.push(`"${label}" is not a list and was ignored`);
+      return [];
+    }
+    return value;
+  };
+
+  // Tags
+  const tags = [...existing.tags];
+  const addedTags: Tag[] = [];
+  let nextTagId = tags.length > 0 ? Math.max(...tags.map(t => t.id)) + 1 : 1;
+  for (const entry of asList(doc.tags, 'tags')) {
+    const tag = validateTag(entry);
+    if (typeof tag === 'string') {
+      report.tags.rejected++;
+      report.errors.push(`Tag rejected: ${tag}`);
+      continue;
+    }
+    if (tags.some(t => t.name.toLowerCase() === tag.name.toLowerCase())) {
+      report.tags.skipped++;
+      continue;
+    }
+    const added = { ...tag, id: nextTagId++ };
+    tags.push(added);
+    addedTags.push(added);
+    report.tags.added++;
+  }
+
+  // Categories match existing ones by id or name; commands follow the match
+  const categories = [...existing.categories];
+  const addedCategories: Category[] = [];
+  const categoryIdMap = new Map<string, string>();
+  let nextOrder = categories.length > 0 ? Math.max(...categories.map(c => c.order)) + 1 : 0;
+  for (const entry of asList(doc.categories, 'categories')) {
+    const category = validateCategory(entry);
+    if (typeof category === 'string') {
+      report.categories.rejected++;
+      report.errors.push(`Category rejected: ${category}`);
+      continue;
+    }
+    const match = categories.find(c => c.id === category.id || c.name.toLowerCase() === category.name.toLowerCase());
+    if (match) {
+      categoryIdMap.set(category.id, match.id);
+      report.categories.skipped++;
+      continue;
+    }
+    const added = { ...category, order: nextOrder++ };
+    categoryIdMap.set(category.id, added.id);
+    categories.push(added);
+    addedCategories.push(added);
+    report.categories.added++;
+  }
+
+  // Commands
+  const commands = [...existing.commands];
+  const addedCommands: Command[] = [];
+  const idMap = new Map<number, number>();
+  let nextCommandId = Math.max(existing.reservedCommandId, ...commands.map(c => c.id)) + 1;
+  for (const entry of asList(doc.commands, 'commands')) {
+    const cmd = validateCommand(entry);
+    if (typeof cmd === 'string') {
+      report.commands.rejected++;
+      report.errors.push(`Command rejected: ${cmd}`);
+      continue;
+    }
+    const duplicate = commands.find(c => c.name === cmd.name && c.command === cmd.command);
+    if (duplicate) {
+      idMap.set(cmd.id, duplicate.id);
+      report.commands.skipped++;
+      continue;
+    }
+    const category = cmd.category ? categoryIdMap.get(cmd.category) ?? cmd.category : null;
+    const added = { ...cmd, id: nextCommandId++, category };
+    idMap.set(cmd.id, added.id);
+    commands.push(added);
+    addedCommands.push(added);
+    report.commands.added++;
+  }
+
+  // Macros follow their commands to the new ids; steps whose command is
+  // missing from the file are dropped
+  const macros = [...existing.macros];
+  const addedMacros: Macro[] = [];
+  let nextMacroId = macros.length > 0 ? Math.max(...macros.map(m => m.id)) + 1 : 1;
+  for (const entry of asList(doc.macros, 'macros')) {
+    const macro = validateMacro(entry);
+    if (typeof macro === 'string') {
+      report.macros.rejected++;
+      report.errors.push(`Macro rejected: ${macro}`);
+      continue;
+    }
+    if (macros.some(m => m.name.toLowerCase() === macro.name.toLowerCase())) {
+      report.macros.skipped++;
+      continue;
+    }
+    const commandIds = macro.commandIds
+      .map(id => idMap.get(id))
+      .filter((id): id is number => id !== undefined);
+    if (commandIds.length < macro.commandIds.length) {
+      report.errors.push(`Macro "${macro.name}": ${macro.commandIds.length - commandIds.length} missing command(s) dropped`);
+    }
+    const added = { ...macro, id: nextMacroId++, commandIds };
+    macros.push(added);
+    addedMacros.push(added);
+    report.macros.added++;
+  }
+
+  // Viewer favorites follow their commands to the new ids
+  const viewerFavorites = { ...existing.viewerFavorites };
+  const incomingFavorites = isObject(doc.viewerFavorites) ? doc.viewerFavorites : {};
+  for (const [oldId, value] of Object.entries(incomingFavorites)) {
+    if (!value) continue;
+    const newId = idMap.get(Number(oldId));
+    if (newId === undefined) {
+      report.favorites.rejected++;
+    } else if (viewerFavorites[newId]) {
+      report.favorites.skipped++;
+    } else {
+      viewerFavorites[newId] = true;
+      report.favorites.added++;
+    }
+  }
+
+  return {
+    commands,
+    tags,
+    categories,
+    macros,
+    viewerFavorites,
+    addedCommands,
+    addedTags,
+    addedCategories,
+    addedMacros,
+    report
+  };
+}
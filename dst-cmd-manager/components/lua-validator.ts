@@ -0,0 +1,77 @@
+/**
+ * Lua Validator
+ * Parses command code with luaparse (Lua 5.1, as used by the DST console)
+ * and reports syntax errors with line and column
+ */
+
+import { parse } from 'luaparse';
+import { parseTemplate, renderTemplateInPlace } from './command-templates';
+
+export interface LuaDiagnostic {
+  line: number;
+  column: number;
+  message: string;
+}
+
+interface LuaParseError extends SyntaxError {
+  line: number;
+  column: number;
+}
+
+const SMART_QUOTES = /[‘’“”]/;
+
+const isLuaParseError = (error: unknown): error is LuaParseError =>
+  error instanceof SyntaxError && typeof (error as LuaParseError).line === 'number';
+
+/**
+ * Replaces template placeholders with stand-in values so templated commands
+ * can be parsed: the default when there is one, otherwise `0` for numbers
+ * and `nil` for strings. Stand-ins are padded to the placeholder's length so
+ * error columns point into the raw code.
+ */
+function fillPlaceholders(code: string): string {
+  const placeholders = parseTemplate(code);
+  if (placeholders.length === 0) return code;
+  const values = Object.fromEntries(placeholders.map(p => [
+    p.name,
+    p.defaultValue ?? (p.type === 'number' ? '0' : 'nil')
+  ]));
+  return renderTemplateInPlace(code, values);
+}
+
+/**
+ * Returns the syntax error of a command, or null when it parses
+ */
+export function validateLua(code: string): LuaDiagnostic | null {
+  const source = fillPlaceholders(code);
+  try {
+    parse(source, { luaVersion: '5.1', comments: false, scope: false, locations: false, ranges: false });
+    return null;
+  } catch (error) {
+    if (!isLuaParseError(error)) {
+      return { line: 1, column: 1, message: String(error) };
+    }
+    const lineText = source.split('\n')[error.line - 1] ?? '';
+    // luaparse prefixes messages with "[line:column] "
+    let message = error.message.replace(/^\[\d+:\d+\]\s*/, '');
+    if (SMART_QUOTES.test(lineText)) {
+      message += ' (curly quotes are not valid Lua, use straight quotes)';
+    }
+    // luaparse columns are 0-based; the editor counts from 1
+    return { line: error.line, column: error.column + 1, message };
+  }
+}
+
+/**
+ * Validates many commands at once, keyed by command id
+ */
+export function validateCommands(commands: { id: number; command: string }[]): Record<number, LuaDiagnostic> {
+  const results: Record<number, LuaDiagnostic> = {};
+  for (const cmd of commands) {
+    const diagnostic = validateLua(cmd.command || '');
+    if (diagnostic) {
+      results[cmd.id] = diagnostic;
+    }
+  }
+  return results;
+}
@@ -0,0 +1,441 @@
+/**
+ * Prefab Catalog
+ * Offline list of common DST prefab IDs with display names, used to
+ * autocomplete and validate the string arguments of c_spawn/c_give/c_find
+ */
+
+export interface Prefab {
+  id: string;
+  name: string;
+}
+
+export interface PrefabReference {
+  fn: string;
+  prefab: string;
+  index: number;
+}
+
+export interface PrefabCompletion {
+  partial: string;
+  start: number;
+  end: number;
+}
+
+export const PREFAB_FUNCTIONS = ['c_spawn', 'c_give', 'c_find'];
+
+export const PREFAB_CATALOG: Prefab[] = [
+  // Mobs
+  { id: 'spider', name: 'Spider' },
+  { id: 'spider_warrior', name: 'Spider Warrior' },
+  { id: 'spider_hider', name: 'Cave Spider' },
+  { id: 'spider_spitter', name: 'Spitter' },
+  { id: 'spider_dropper', name: 'Dangling Depth Dweller' },
+  { id: 'spiderqueen', name: 'Spider Queen' },
+  { id: 'hound', name: 'Hound' },
+  { id: 'firehound', name: 'Red Hound' },
+  { id: 'icehound', name: 'Blue Hound' },
+  { id: 'warg', name: 'Varg' },
+  { id: 'beefalo', name: 'Beefalo' },
+  { id: 'babybeefalo', name: 'Baby Beefalo' },
+  { id: 'pigman', name: 'Pig' },
+  { id: 'pigguard', name: 'Guardian Pig' },
+  { id: 'bunnyman', name: 'Bunnyman' },
+  { id: 'merm', name: 'Merm' },
+  { id: 'tallbird', name: 'Tallbird' },
+  { id: 'smallbird', name: 'Smallbird' },
+  { id: 'koalefant_summer', name: 'Koalefant (Summer)' },
+  { id: 'koalefant_winter', name: 'Koalefant (Winter)' },
+  { id: 'walrus', name: 'MacTusk' },
+  { id: 'little_walrus', name: 'Wee MacTusk' },
+  { id: 'krampus', name: 'Krampus' },
+  { id: 'leif', name: 'Treeguard' },
+  { id: 'leif_sparse', name: 'Lumpy Treeguard' },
+  { id: 'tentacle', name: 'Tentacle' },
+  { id: 'rabbit', name: 'Rabbit' },
+  { id: 'crow', name: 'Crow' },
+  { id: 'robin', name: 'Redbird' },
+  { id: 'robin_winter', name: 'Snowbird' },
+  { id: 'canary', name: 'Canary' },
+  { id: 'butterfly', name: 'Butterfly' },
+  { id: 'bee', name: 'Bee' },
+  { id: 'killerbee', name: 'Killer Bee' },
+  { id: 'frog', name: 'Frog' },
+  { id: 'mosquito', name: 'Mosquito' },
+  { id: 'catcoon', name: 'Catcoon' },
+  { id: 'lightninggoat', name: 'Volt Goat' },
+  { id: 'buzzard', name: 'Buzzard' },
+  { id: 'penguin', name: 'Pengull' },
+  { id: 'mole', name: 'Moleworm' },
+  { id: 'perd', name: 'Gobbler' },
+  { id: 'bat', name: 'Batilisk' },
+  { id: 'slurper', name: 'Slurper' },
+  { id: 'slurtle', name: 'Slurtle' },
+  { id: 'snurtle', name: 'Snurtle' },
+  { id: 'rocky', name: 'Rock Lobster' },
+  { id: 'monkey', name: 'Splumonkey' },
+  { id: 'worm', name: 'Depths Worm' },
+  { id: 'bishop', name: 'Clockwork Bishop' },
+  { id: 'knight', name: 'Clockwork Knight' },
+  { id: 'rook', name: 'Clockwork Rook' },
+  { id: 'mossling', name: 'Mosling' },
+  { id: 'glommer', name: 'Glommer' },
+  { id: 'chester', name: 'Chester' },
+  { id: 'hutch', name: 'Hutch' },
+  { id: 'lavae', name: 'Lavae' },
+  { id: 'grassgekko', name: 'Grass Gekko' },
+  { id: 'fruitdragon', name: 'Saladmander' },
+  { id: 'mutatedhound', name: 'Horror Hound' },
+  { id: 'crawlinghorror', name: 'Crawling Horror' },
+  { id: 'terrorbeak', name: 'Terrorbeak' },
+  // Bosses
+  { id: 'deerclops', name: 'Deerclops' },
+  { id: 'bearger', name: 'Bearger' },
+  { id: 'moose', name: 'Moose/Goose' },
+  { id: 'dragonfly', name: 'Dragonfly' },
+  { id: 'antlion', name: 'Antlion' },
+  { id: 'klaus', name: 'Klaus' },
+  { id: 'klaus_sack', name: 'Loot Stash' },
+  { id: 'toadstool', name: 'Toadstool' },
+  { id: 'toadstool_dark', name: 'Misery Toadstool' },
+  { id: 'beequeen', name: 'Bee Queen' },
+  { id: 'minotaur', name: 'Ancient Guardian' },
+  { id: 'stalker', name: 'Reanimated Skeleton' },
+  { id: 'stalker_atrium', name: 'Ancient Fuelweaver' },
+  { id: 'crabking', name: 'Crab King' },
+  { id: 'malbatross', name: 'Malbatross' },
+  { id: 'alterguardian_phase1', name: 'Celestial Champion' },
+  { id: 'eyeofterror', name: 'Eye of Terror' },
+  { id: 'twinofterror1', name: 'Retinazor' },
+  { id: 'twinofterror2', name: 'Spazmatism' },
+  { id: 'daywalker', name: 'Nightmare Werepig' },
+  // Resources
+  { id: 'goldnugget', name: 'Gold Nugget' },
+  { id: 'log', name: 'Log' },
+  { id: 'rocks', name: 'Rocks' },
+  { id: 'flint', name: 'Flint' },
+  { id: 'cutgrass', name: 'Cut Grass' },
+  { id: 'twigs', name: 'Twigs' },
+  { id: 'boards', name: 'Boards' },
+  { id: 'cutstone', name: 'Cut Stone' },
+  { id: 'rope', name: 'Rope' },
+  { id: 'papyrus', name: 'Papyrus' },
+  { id: 'nitre', name: 'Nitre' },
+  { id: 'charcoal', name: 'Charcoal' },
+  { id: 'ash', name: 'Ashes' },
+  { id: 'silk', name: 'Silk' },
+  { id: 'pigskin', name: 'Pig Skin' },
+  { id: 'beefalowool', name: 'Beefalo Wool' },
+  { id: 'manrabbit_tail', name: 'Bunny Puff' },
+  { id: 'houndstooth', name: "Hound's Tooth" },
+  { id: 'stinger', name: 'Stinger' },
+  { id: 'gears', name: 'Gears' },
+  { id: 'marble', name: 'Marble' },
+  { id: 'moonrocknugget', name: 'Moon Rock' },
+  { id: 'moonglass', name: 'Moon Shard' },
+  { id: 'transistor', name: 'Electrical Doodad' },
+  { id: 'livinglog', name: 'Living Log' },
+  { id: 'nightmarefuel', name: 'Nightmare Fuel' },
+  { id: 'thulecite', name: 'Thulecite' },
+  { id: 'thulecite_pieces', name: 'Thulecite Fragments' },
+  { id: 'redgem', name: 'Red Gem' },
+  { id: 'bluegem', name: 'Blue Gem' },
+  { id: 'purplegem', name: 'Purple Gem' },
+  { id: 'orangegem', name: 'Orange Gem' },
+  { id: 'yellowgem', name: 'Yellow Gem' },
+  { id: 'greengem', name: 'Green Gem' },
+  { id: 'opalpreciousgem', name: 'Iridescent Gem' },
+  { id: 'feather_crow', name: 'Jet Feather' },
+  { id: 'feather_robin', name: 'Crimson Feather' },
+  { id: 'feather_robin_winter', name: 'Azure Feather' },
+  { id: 'feather_canary', name: 'Saffron Feather' },
+  { id: 'honeycomb', name: 'Honeycomb' },
+  { id: 'poop', name: 'Manure' },
+  { id: 'guano', name: 'Guano' },
+  { id: 'spidergland', name: 'Spider Gland' },
+  { id: 'mosquitosack', name: 'Mosquito Sack' },
+  { id: 'tentaclespots', name: 'Tentacle Spots' },
+  { id: 'walrus_tusk', name: 'Walrus Tusk' },
+  { id: 'steelwool', name: 'Steel Wool' },
+  { id: 'horn', name: 'Beefalo Horn' },
+  { id: 'deerclops_eyeball', name: 'Deerclops Eyeball' },
+  { id: 'bearger_fur', name: 'Thick Fur' },
+  { id: 'goose_feather', name: 'Down Feather' },
+  { id: 'dragon_scales', name: 'Scales' },
+  { id: 'minotaurhorn', name: 'Guardian\'s Horn' },
+  { id: 'shroom_skin', name: 'Shroom Skin' },
+  { id: 'royal_jelly', name: 'Royal Jelly' },
+  { id: 'fossil_piece', name: 'Fossil Fragments' },
+  { id: 'dreadstone', name: 'Dreadstone' },
+  { id: 'horrorfuel', name: 'Pure Horror' },
+  // Food
+  { id: 'meat', name: 'Meat' },
+  { id: 'smallmeat', name: 'Morsel' },
+  { id: 'monstermeat', name: 'Monster Meat' },
+  { id: 'drumstick', name: 'Drumstick' },
+  { id: 'fish', name: 'Fish' },
+  { id: 'froglegs', name: 'Frog Legs' },
+  { id: 'berries', name: 'Berries' },
+  { id: 'carrot', name: 'Carrot' },
+  { id: 'honey', name: 'Honey' },
+  { id: 'butter', name: 'Butter' },
+  { id: 'bird_egg', name: 'Egg' },
+  { id: 'red_cap', name: 'Red Cap' },
+  { id: 'green_cap', name: 'Green Cap' },
+  { id: 'blue_cap', name: 'Blue Cap' },
+  { id: 'mandrake', name: 'Mandrake' },
+  { id: 'meatballs', name: 'Meatballs' },
+  { id: 'bonestew', name: 'Meaty Stew' },
+  { id: 'honeyham', name: 'Honey Ham' },
+  { id: 'dragonpie', name: 'Dragonpie' },
+  { id: 'baconeggs', name: 'Bacon and Eggs' },
+  { id: 'perogies', name: 'Pierogi' },
+  { id: 'butterflymuffin', name: 'Butter Muffin' },
+  { id: 'healingsalve', name: 'Healing Salve' },
+  { id: 'bandage', name: 'Honey Poultice' },
+  // Tools and weapons
+  { id: 'axe', name: 'Axe' },
+  { id: 'goldenaxe', name: 'Luxury Axe' },
+  { id: 'pickaxe', name: 'Pickaxe' },
+  { id: 'goldenpickaxe', name: 'Opulent Pickaxe' },
+  { id: 'shovel', name: 'Shovel' },
+  { id: 'goldenshovel', name: 'Regal Shovel' },
+  { id: 'hammer', name: 'Hammer' },
+  { id: 'pitchfork', name: 'Pitchfork' },
+  { id: 'razor', name: 'Razor' },
+  { id: 'multitool_axe_pickaxe', name: 'Pick/Axe' },
+  { id: 'torch', name: 'Torch' },
+  { id: 'lantern', name: 'Lantern' },
+  { id: 'spear', name: 'Spear' },
+  { id: 'spear_wathgrithr', name: 'Battle Spear' },
+  { id: 'hambat', name: 'Ham Bat' },
+  { id: 'nightsword', name: 'Dark Sword' },
+  { id: 'ruins_bat', name: 'Thulecite Club' },
+  { id: 'batbat', name: 'Bat Bat' },
+  { id: 'tentaclespike', name: 'Tentacle Spike' },
+  { id: 'boomerang', name: 'Boomerang' },
+  { id: 'blowdart_pipe', name: 'Blow Dart' },
+  { id: 'staff_tornado', name: 'Weather Pain' },
+  { id: 'firestaff', name: 'Fire Staff' },
+  { id: 'icestaff', name: 'Ice Staff' },
+  { id: 'telestaff', name: 'Telelocator Staff' },
+  { id: 'orangestaff', name: 'The Lazy Explorer' },
+  { id: 'yellowstaff', name: 'Star Caller\'s Staff' },
+  { id: 'greenstaff', name: 'Deconstruction Staff' },
+  { id: 'opalstaff', name: 'Moon Caller\'s Staff' },
+  { id: 'cane', name: 'Walking Cane' },
+  { id: 'trap', name: 'Trap' },
+  { id: 'birdtrap', name: 'Bird Trap' },
+  { id: 'bugnet', name: 'Bug Net' },
+  { id: 'fishingrod', name: 'Fishing Rod' },
+  { id: 'compass', name: 'Compass' },
+  { id: 'umbrella', name: 'Umbrella' },
+  { id: 'bedroll_straw', name: 'Straw Roll' },
+  { id: 'bedroll_furry', name: 'Fur Roll' },
+  { id: 'featherfan', name: 'Luxury Fan' },
+  { id: 'amulet', name: 'Life Giving Amulet' },
+  { id: 'blueamulet', name: 'Chilled Amulet' },
+  { id: 'purpleamulet', name: 'Nightmare Amulet' },
+  { id: 'orangeamulet', name: 'The Lazy Forager' },
+  { id: 'yellowamulet', name: 'Magiluminescence' },
+  { id: 'greenamulet', name: 'Construction Amulet' },
+  { id: 'reviver', name: 'Telltale Heart' },
+  // Armor and clothing
+  { id: 'armorgrass', name: 'Grass Suit' },
+  { id: 'armorwood', name: 'Log Suit' },
+  { id: 'armormarble', name: 'Marble Suit' },
+  { id: 'armorruins', name: 'Thulecite Suit' },
+  { id: 'armor_sanity', name: 'Night Armour' },
+  { id: 'armordragonfly', name: 'Scalemail' },
+  { id: 'footballhat', name: 'Football Helmet' },
+  { id: 'ruinshat', name: 'Thulecite Crown' },
+  { id: 'beehat', name: 'Beekeeper Hat' },
+  { id: 'minerhat', name: 'Miner Hat' },
+  { id: 'strawhat', name: 'Straw Hat' },
+  { id: 'tophat', name: 'Top Hat' },
+  { id: 'winterhat', name: 'Winter Hat' },
+  { id: 'beefalohat', name: 'Beefalo Hat' },
+  { id: 'eyebrellahat', name: 'Eyebrella' },
+  { id: 'walrushat', name: 'Tam o\' Shanter' },
+  { id: 'trunkvest_summer', name: 'Breezy Vest' },
+  { id: 'trunkvest_winter', name: 'Puffy Vest' },
+  { id: 'raincoat', name: 'Rain Coat' },
+  { id: 'backpack', name: 'Backpack' },
+  { id: 'piggyback', name: 'Piggyback' },
+  { id: 'krampus_sack', name: 'Krampus Sack' },
+  // Structures
+  { id: 'campfire', name: 'Campfire' },
+  { id: 'firepit', name: 'Fire Pit' },
+  { id: 'coldfirepit', name: 'Endothermic Fire Pit' },
+  { id: 'researchlab', name: 'Science Machine' },
+  { id: 'researchlab2', name: 'Alchemy Engine' },
+  { id: 'researchlab3', name: 'Shadow Manipulator' },
+  { id: 'researchlab4', name: 'Prestihatitator' },
+  { id: 'cookpot', name: 'Crock Pot' },
+  { id: 'icebox', name: 'Ice Box' },
+  { id: 'treasurechest', name: 'Chest' },
+  { id: 'dragonflychest', name: 'Scaled Chest' },
+  { id: 'birdcage', name: 'Birdcage' },
+  { id: 'tent', name: 'Tent' },
+  { id: 'siestahut', name: 'Siesta Lean-to' },
+  { id: 'lightning_rod', name: 'Lightning Rod' },
+  { id: 'firesuppressor', name: 'Ice Flingomatic' },
+  { id: 'pighouse', name: 'Pig House' },
+  { id: 'rabbithouse', name: 'Rabbit Hutch' },
+  { id: 'beebox', name: 'Bee Box' },
+  { id: 'meatrack', name: 'Drying Rack' },
+  { id: 'slow_farmplot', name: 'Basic Farm' },
+  { id: 'fast_farmplot', name: 'Improved Farm' },
+  { id: 'resurrectionstatue', name: 'Meat Effigy' },
+  { id: 'ancient_altar', name: 'Ancient Pseudoscience Station' },
+  { id: 'wormhole', name: 'Wormhole' },
+  { id: 'multiplayer_portal', name: 'Florid Postern' },
+  { id: 'cave_entrance', name: 'Sinkhole' },
+  { id: 'pandoraschest', name: 'Ornate Chest' },
+  // Nature
+  { id: 'evergreen', name: 'Evergreen' },
+  { id: 'evergreen_sparse', name: 'Lumpy Evergreen' },
+  { id: 'deciduoustree', name: 'Birchnut Tree' },
+  { id: 'twiggytree', name: 'Twiggy Tree' },
+  { id: 'sapling', name: 'Sapling' },
+  { id: 'grass', name: 'Grass Tuft' },
+  { id: 'berrybush', name: 'Berry Bush' },
+  { id: 'berrybush_juicy', name: 'Juicy Berry Bush' },
+  { id: 'reeds', name: 'Reeds' },
+  { id: 'marsh_bush', name: 'Spiky Bush' },
+  { id: 'cactus', name: 'Cactus' },
+  { id: 'rock1', name: 'Boulder' },
+  { id: 'rock2', name: 'Gold Vein Boulder' },
+  { id: 'rock_flintless', name: 'Flintless Boulder' },
+  { id: 'rock_moon', name: 'Moon Rock Boulder' },
+  { id: 'marbletree', name: 'Marble Tree' },
+  { id: 'spiderden', name: 'Spider Den' },
+  { id: 'beehive', name: 'Beehive' },
+  { id: 'wasphive', name: 'Killer Bee Hive' },
+  { id: 'houndmound', name: 'Hound Mound' },
+  { id: 'tallbirdnest', name: 'Tallbird Nest' },
+  { id: 'mermhouse', name: 'Rundown House' },
+  { id: 'rabbithole', name: 'Rabbit Hole' },
+  { id: 'pond', name: 'Pond' },
+  { id: 'mushtree_tall', name: 'Blue Mushtree' },
+  { id: 'mushtree_medium', name: 'Red Mushtree' },
+  { id: 'mushtree_small', name: 'Green Mushtree' },
+  { id: 'lichen', name: 'Lichen' },
+  { id: 'flower', name: 'Flower' },
+  { id: 'flower_evil', name: 'Evil Flower' },
+  { id: 'cave_banana_tree', name: 'Cave Banana Tree' },
+  { id: 'skeleton', name: 'Skeleton' }
+];
+
+const PREFAB_INDEX = new Map(PREFAB_CATALOG.map(prefab => [prefab.id, prefab]));
+
+const REFERENCE_PATTERN = new RegExp(`\\b(${PREFAB_FUNCTIONS.join('|')})\\s*\\(\\s*(["'])([^"']*)\\2`, 'g');
+
+const COMPLETION_PATTERN = new RegExp(`\\b(?:${PREFAB_FUNCTIONS.join('|')})\\s*\\(\\s*["']([A-Za-z0-9_]*)$`);
+
+// Template placeholders such as ${prefab} are filled in at copy time
+const PLACEHOLDER_ONLY = /^\$\{[^{}]*\}$/;
+
+export function findPrefab(id: string): Prefab | undefined {
+  return PREFAB_INDEX.get(id.toLowerCase());
+}
+
+/**
+ * Ranks catalog entries for a partial id: prefix matches on the id first,
+ * then substring matches on the id or display name
+ */
+export function searchPrefabs(query: string, limit = 8): Prefab[] {
+  const needle = query.toLowerCase();
+  if (!needle) return PREFAB_CATALOG.slice(0, limit);
+  const prefix: Prefab[] = [];
+  const contains: Prefab[] = [];
+  for (const prefab of PREFAB_CATALOG) {
+    if (prefab.id.startsWith(needle)) {
+      prefix.push(prefab);
+    } else if (prefab.id.includes(needle) || prefab.name.toLowerCase().includes(needle)) {
+      contains.push(prefab);
+    }
+  }
+  return [...prefix, ...contains].slice(0, limit);
+}
+
+/**
+ * Lists the prefab string arguments passed to c_spawn/c_give/c_find
+ */
+export function extractPrefabReferences(code: string): PrefabReference[] {
+  const references: PrefabReference[] = [];
+  for (const match of code.matchAll(REFERENCE_PATTERN)) {
+    const [full, fn, , prefab] = match;
+    references.push({ fn, prefab, index: (match.index ?? 0) + full.length - prefab.length - 1 });
+  }
+  return references;
+}
+
+/**
+ * Returns the prefab ids of a command that are not in the catalog
+ */
+export function findUnknownPrefabs(code: string): string[] {
+  const unknown = extractPrefabReferences(code)
+    .map(ref => ref.prefab)
+    .filter(prefab => prefab && !PLACEHOLDER_ONLY.test(prefab) && !findPrefab(prefab));
+  return [...new Set(unknown)];
+}
+
+/**
+ * Validates many commands at once, keyed by command id
+ */
+export function findUnknownPrefabsInCommands(commands: { id: number; command: string }[]): Record<number, string[]> {
+  const results: Record<number, string[]> = {};
+  for (const cmd of commands) {
+    const unknown = findUnknownPrefabs(cmd.command || '');
+    if (unknown.length > 0) {
+      results[cmd.id] = unknown;
+    }
+  }
+  return results;
+}
+
+/**
+ * Suggests the closest catalog id for a misspelled prefab
+ */
+export function suggestPrefab(id: string): Prefab | null {
+  let best: Prefab | null = null;
+  let bestDistance = Infinity;
+  for (const prefab of PREFAB_CATALOG) {
+    const distance = editDistance(id.toLowerCase(), prefab.id);
+    if (distance < bestDistance) {
+      best = prefab;
+      bestDistance = distance;
+    }
+  }
+  // Only suggest when the typo is small relative to the id length
+  return best && bestDistance <= Math.max(2, Math.floor(id.length / 3)) ? best : null;
+}
+
+/**
+ * Finds the partially typed prefab id at the caret, if the caret is inside
+ * the first string argument of a prefab function
+ */
+export function getPrefabCompletion(code: string, caret: number): PrefabCompletion | null {
+  const match = COMPLETION_PATTERN.exec(code.slice(0, caret));
+  if (!match) return null;
+  const rest = /^[A-Za-z0-9_]*/.exec(code.slice(caret))?.[0] ?? '';
+  return { partial: match[1], start: caret - match[1].length, end: caret + rest.length };
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(
+        row[j] + 1,
+        row[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
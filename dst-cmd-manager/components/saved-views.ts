@@ -0,0 +1,63 @@
+/**
+ * Saved Views
+ * Named combinations of filters and search text that can be restored with
+ * one click. Shared views live in the library; viewers keep private ones.
+ */
+
+import { EMPTY_FILTER, renameFilterTag, CommandFilter } from './command-filter';
+
+export interface SavedView {
+  id: number;
+  name: string;
+  filter: CommandFilter;
+  search: string;
+}
+
+const sameList = (a: string[], b: string[]) =>
+  a.length === b.length && a.every(item => b.includes(item));
+
+export function isViewActive(view: SavedView, filter: CommandFilter, search: string): boolean {
+  const viewFilter = view.filter;
+  return view.search.trim() === search.trim()
+    && sameList(viewFilter.tags, filter.tags)
+    && (viewFilter.tags.length < 2 || viewFilter.tagMode === filter.tagMode)
+    && viewFilter.category === filter.category
+    && viewFilter.uncategorized === filter.uncategorized
+    && viewFilter.favorites === filter.favorites
+    && viewFilter.untagged === filter.untagged
+    && viewFilter.noImage === filter.noImage;
+}
+
+/**
+ * Fills in filter fields missing from views saved by older versions
+ */
+export function normalizeView(view: SavedView): SavedView {
+  return {
+    ...view,
+    filter: { ...EMPTY_FILTER, ...view.filter },
+    search: view.search || ''
+  };
+}
+
+/**
+ * Returns the views whose filters change when a tag is renamed or deleted
+ * (pass null as the new name for a deletion), already updated
+ */
+export function cascadeTagChange(views: SavedView[], oldName: string, newName: string | null): SavedView[] {
+  return views
+    .filter(view => view.filter.tags.includes(oldName))
+    .map(view => ({ ...view, filter: renameFilterTag(view.filter, oldName, newName) }));
+}
+
+/**
+ * Returns the views whose filters change when a category is deleted, already updated
+ */
+export function cascadeCategoryDelete(views: SavedView[], categoryId: string): SavedView[] {
+  return views
+    .filter(view => view.filter.category === categoryId)
+    .map(view => ({ ...view, filter: { ...view.filter, category: null } }));
+}
+
+export function nextViewId(views: SavedView[]): number {
+  return views.length > 0 ? Math.max(...views.map(v => v.id)) + 1 : 1;
+}
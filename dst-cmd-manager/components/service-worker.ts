@@ -0,0 +1,17 @@
+/**
+ * Service Worker Registration
+ * Registers public/sw.js, which caches the app shell and wiki images for
+ * offline use. The build id is passed along so each deploy installs a new
+ * worker with its own shell cache. Skipped in development, where cached
+ * assets would get in the way of hot reloading.
+ */
+
+export function registerServiceWorker(): void {
+  if (process.env.NODE_ENV !== 'production' || typeof navigator === 'undefined' || !('serviceWorker' in navigator)) {
+    return;
+  }
+  const build = encodeURIComponent(process.env.NEXT_PUBLIC_BUILD_ID || '');
+  navigator.serviceWorker.register(`/sw.js?build=${build}`).catch(error => {
+    console.error('Service worker registration failed:', error);
+  });
+}
@@ -0,0 +1,104 @@
+/**
+ * Share Links
+ * Packs a handful of commands, with the tags and categories they use, into a
+ * deflate-compressed, base64url-encoded URL fragment. Fragments never reach
+ * the server, so a link is all it takes to pass commands on. Opening one
+ * turns the payload back into a library document for the regular import.
+ */
+
+import { LibraryImportError, LIBRARY_FORMAT, LIBRARY_SCHEMA_VERSION } from './library-transfer';
+import type { Category, Command, Tag } from './types';
+
+export const SHARE_FRAGMENT_PREFIX = '#share=';
+const SHARE_VERSION = 1;
+
+// Chat apps and browsers start truncating or refusing URLs around this length
+export const SHARE_URL_WARNING_LENGTH = 8000;
+
+interface SharePayload {
+  v: number;
+  commands: { name: string; command: string; tags: string[]; category: string | null; image?: string }[];
+  tags: { name: string; color: string }[];
+  categories: { id: string; name: string; color: string }[];
+}
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4)), char => char.charCodeAt(0));
+};
+
+const pipeThrough = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes as BlobPart]).stream().pipeThrough(transform)).arrayBuffer());
+
+/**
+ * Encodes commands into a fragment (including the leading `#share=`).
+ * Uploaded images stay behind; only image URLs travel with the link.
+ */
+export async function encodeShareFragment(commands: Command[], tags: Tag[], categories: Category[]): Promise<string> {
+  const tagNames = new Set(commands.flatMap(cmd => cmd.tags || []));
+  const categoryIds = new Set(commands.map(cmd => cmd.category).filter(Boolean));
+  const payload: SharePayload = {
+    v: SHARE_VERSION,
+    commands: commands.map(cmd => ({
+      name: cmd.name,
+      command: cmd.command,
+      tags: cmd.tags || [],
+      category: cmd.category || null,
+      ...(/^https?:\/\//.test(cmd.image || '') && { image: cmd.image })
+    })),
+    tags: tags.filter(tag => tagNames.has(tag.name)).map(({ name, color }) => ({ name, color })),
+    categories: categories.filter(category => categoryIds.has(category.id)).map(({ id, name, color }) => ({ id, name, color }))
+  };
+  const compressed = await pipeThrough(new TextEncoder().encode(JSON.stringify(payload)), new CompressionStream('deflate-raw'));
+  return SHARE_FRAGMENT_PREFIX + toBase64Url(compressed);
+}
+
+export function isShareFragment(hash: string): boolean {
+  return hash.startsWith(SHARE_FRAGMENT_PREFIX) && hash.length > SHARE_FRAGMENT_PREFIX.length;
+}
+
+/**
+ * Decodes a fragment into a document for mergeLibraryImport. Throws
+ * LibraryImportError when the link is damaged or from a newer version.
+ */
+export async function decodeShareFragment(hash: string): Promise<Record<string, unknown>> {
+  let payload: SharePayload;
+  try {
+    const bytes = await pipeThrough(fromBase64Url(hash.slice(SHARE_FRAGMENT_PREFIX.length)), new DecompressionStream('deflate-raw'));
+    payload = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new LibraryImportError('This share link is incomplete or damaged.');
+  }
+  if (typeof payload !== 'object' || payload === null || !Array.isArray(payload.commands)) {
+    throw new LibraryImportError('This share link is incomplete or damaged.');
+  }
+  if (payload.v > SHARE_VERSION) {
+    throw new LibraryImportError('This share link was made by a newer version of the app.');
+  }
+
+  // Ids only need to be unique within the document; the import assigns new ones
+  return {
+    format: LIBRARY_FORMAT,
+    version: LIBRARY_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    commands: payload.commands.map((cmd, index) => ({
+      id: index + 1,
+      name: cmd.name,
+      command: cmd.command,
+      image: cmd.image || '',
+      tags: cmd.tags,
+      category: cmd.category,
+      favorite: false
+    })),
+    tags: (payload.tags || []).map((tag, index) => ({ id: index + 1, name: tag.name, color: tag.color })),
+    categories: (payload.categories || []).map((category, index) => ({ ...category, order: index })),
+    macros: [],
+    viewerFavorites: {}
+  };
+}
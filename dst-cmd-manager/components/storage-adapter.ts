@@ -2,8 +2,12 @@
  * LocalStorage Adapter
  * Provides an async storage interface compatible with the DST Command Manager
  * Handles key-value persistence with error handling and validation
+ * Records live in the shared schema-versioned blob from library-storage.ts;
+ * per-record keys left by earlier versions of this adapter are migrated there
  */
 
+import { ensureMigrated, isAppStorageKey, storage, LEGACY_ADAPTER_PREFIX } from './library-storage';
+
 export interface StorageResult {
   keys: string[];
 }
@@ -14,10 +18,11 @@ export interface StorageData {
 
 class StorageAdapter {
   private static instance: StorageAdapter;
-  private prefix: string = 'dst_app_';
-  
+  private prefix: string = LEGACY_ADAPTER_PREFIX;
+
   private constructor() {
     this.validateStorageAvailability();
+    ensureMigrated();
   }
 
   static getInstance(): StorageAdapter {
@@ -31,6 +36,8 @@ class StorageAdapter {
    * Validates that localStorage is available and working
    */
   private validateStorageAvailability(): void {
+    // Nothing to check while rendering on the server
+    if (typeof window === 'undefined') return;
     try {
       const testKey = this.prefix + 'test_' + Date.now();
       localStorage.setItem(testKey, 'test');
@@ -45,18 +52,7 @@ class StorageAdapter {
    */
   async list(prefix: string): Promise<StorageResult> {
     try {
-      const keys: string[] = [];
-      const fullPrefix = this.prefix + prefix;
-      
-      for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
-        if (key && key.startsWith(fullPrefix)) {
-          // Return key without the full prefix, just the custom prefix
-          keys.push(key.substring(this.prefix.length));
-        }
-      }
-      
-      return { keys };
+      return await storage.list(prefix);
     } catch (error) {
       console.error('Error listing keys:', error);
       return { keys: [] };
@@ -68,9 +64,8 @@ class StorageAdapter {
    */
   async get(key: string): Promise<StorageData> {
     try {
-      const fullKey = this.prefix + key;
-      const value = localStorage.getItem(fullKey);
-      return { value };
+      const data = await storage.get(key);
+      return { value: data ? data.value : null };
     } catch (error) {
       console.error(`Error getting key ${key}:`, error);
       return { value: null };
@@ -93,9 +88,7 @@ class StorageAdapter {
         return false;
       }
 
-      const fullKey = this.prefix + key;
-      localStorage.setItem(fullKey, value);
-      return true;
+      return await storage.set(key, value);
     } catch (error) {
       console.error(`Error setting key ${key}:`, error);
       return false;
@@ -107,9 +100,7 @@ class StorageAdapter {
    */
   async delete(key: string): Promise<boolean> {
     try {
-      const fullKey = this.prefix + key;
-      localStorage.removeItem(fullKey);
-      return true;
+      return await storage.delete(key);
     } catch (error) {
       console.error(`Error deleting key ${key}:`, error);
       return false;
@@ -121,17 +112,7 @@ class StorageAdapter {
    */
   async clear(): Promise<boolean> {
     try {
-      const keysToDelete: string[] = [];
-      
-      for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
-        if (key && key.startsWith(this.prefix)) {
-          keysToDelete.push(key);
-        }
-      }
-      
-      keysToDelete.forEach(key => localStorage.removeItem(key));
-      return true;
+      return await storage.clear();
     } catch (error) {
       console.error('Error clearing storage:', error);
       return false;
@@ -146,7 +127,7 @@ class StorageAdapter {
     for (let i = 0; i < localStorage.length; i++) {
       const key = localStorage.key(i);
       const value = localStorage.getItem(key || '');
-      if (key && key.startsWith(this.prefix) && value) {
+      if (key && isAppStorageKey(key) && value) {
         used += new Blob([key, value]).size;
       }
     }
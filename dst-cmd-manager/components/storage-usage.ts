@@ -0,0 +1,106 @@
+/**
+ * Storage Usage
+ * Breaks the app's localStorage footprint down by what it holds and
+ * estimates how much a save adds, so the quota can be dealt with before a
+ * write fails. Sizes are counted the same way as
+ * StorageAdapter.getStorageInfo(). Uploaded images live in IndexedDB under
+ * the origin's much larger quota and are measured separately.
+ */
+
+import { measureStoredImages } from './image-store';
+import { isAppStorageKey, IMAGE_CACHE_KEY, LEGACY_IMAGE_PREFIX, STORAGE_KEY } from './library-storage';
+
+export interface StorageBreakdown {
+  commands: number;
+  // Base64 images inside command and trash records
+  embeddedImages: number;
+  imageCache: number;
+  favorites: number;
+  // Tags, categories, macros, views, trash, revisions, settings and the sync outbox
+  other: number;
+}
+
+export const STORAGE_CATEGORY_LABELS: Record<keyof StorageBreakdown, string> = {
+  commands: 'Commands',
+  embeddedImages: 'Embedded images',
+  imageCache: 'Image cache',
+  favorites: 'Favorites',
+  other: 'Everything else'
+};
+
+const byteSize = (text: string) => new Blob([text]).size;
+
+const DATA_URL_PATTERN = /data:[^"\\]+/g;
+
+const dataUrlBytes = (record: string) =>
+  (record.match(DATA_URL_PATTERN) || []).reduce((sum, dataUrl) => sum + byteSize(dataUrl), 0);
+
+/**
+ * Sizes of the app's localStorage entries by category. `favoritesKey` is the
+ * key viewer favorites are kept under.
+ */
+export function measureStorageBreakdown(favoritesKey: string, backend: Storage = localStorage): StorageBreakdown {
+  const breakdown: StorageBreakdown = { commands: 0, embeddedImages: 0, imageCache: 0, favorites: 0, other: 0 };
+  for (let i = 0; i < backend.length; i++) {
+    const key = backend.key(i);
+    const value = key === null ? null : backend.getItem(key);
+    if (key === null || !value || !isAppStorageKey(key)) continue;
+    const size = byteSize(key) + byteSize(value);
+
+    if (key === IMAGE_CACHE_KEY || key.startsWith(LEGACY_IMAGE_PREFIX)) {
+      breakdown.imageCache += size;
+    } else if (key === favoritesKey) {
+      breakdown.favorites += size;
+    } else if (key === STORAGE_KEY) {
+      // Records are JSON strings inside the blob, so their sizes include escaping
+      let commands = 0;
+      let images = 0;
+      try {
+        const data = JSON.parse(value);
+        for (const [store, records] of Object.entries(data)) {
+          if (typeof records !== 'object' || records === null) continue;
+          for (const record of Object.values(records as Record<string, string>)) {
+            const recordImages = dataUrlBytes(record);
+            images += recordImages;
+            if (store === 'commands') commands += byteSize(JSON.stringify(record)) - recordImages;
+          }
+        }
+      } catch (e) {
+        console.error('Error measuring library storage:', e);
+      }
+      breakdown.commands += commands;
+      breakdown.embeddedImages += images;
+      breakdown.other += Math.max(0, size - commands - images);
+    } else {
+      breakdown.other += size;
+    }
+  }
+  return breakdown;
+}
+
+export interface ImageStoreUsage {
+  count: number;
+  bytes: number;
+  // Everything the origin stores (image store, service worker caches,
+  // localStorage) against its quota, when the browser reports them
+  originUsage: number | null;
+  originQuota: number | null;
+}
+
+/**
+ * Size of the IndexedDB image store and the origin quota it counts against
+ */
+export async function measureImageStore(): Promise<ImageStoreUsage> {
+  const { count, bytes } = await measureStoredImages();
+  const estimate = typeof navigator !== 'undefined' && navigator.storage?.estimate
+    ? await navigator.storage.estimate().catch(() => null)
+    : null;
+  return { count, bytes, originUsage: estimate?.usage ?? null, originQuota: estimate?.quota ?? null };
+}
+
+/**
+ * Bytes a record write adds to the library blob (negative when it shrinks)
+ */
+export function estimateRecordGrowth(previous: string | null, next: string): number {
+  return byteSize(JSON.stringify(next)) - (previous === null ? 0 : byteSize(JSON.stringify(previous)));
+}
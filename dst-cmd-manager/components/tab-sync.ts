@@ -0,0 +1,71 @@
+/**
+ * Tab Sync
+ * Keeps open tabs in step. All tabs share the localStorage blob, and the
+ * browser fires a `storage` event in every other tab when it changes;
+ * comparing the blob before and after tells which records another tab saved
+ * or deleted.
+ */
+
+import { STORAGE_KEY, STORES } from './library-storage';
+
+export interface RemoteChange {
+  key: string;
+  // null when the record was deleted
+  value: string | null;
+}
+
+const parseBlob = (raw: string | null): Record<string, unknown> => (raw ? JSON.parse(raw) : {});
+
+/**
+ * Records that differ between two versions of the library blob, as
+ * `prefix:id` keys with their new value
+ */
+export function diffLibraryBlobs(oldRaw: string | null, newRaw: string | null): RemoteChange[] {
+  const before = parseBlob(oldRaw);
+  const after = parseBlob(newRaw);
+  const changes: RemoteChange[] = [];
+  for (const [prefix, store] of Object.entries(STORES)) {
+    const oldStore = (before[store] || {}) as Record<string, string>;
+    const newStore = (after[store] || {}) as Record<string, string>;
+    for (const id of new Set([...Object.keys(oldStore), ...Object.keys(newStore)])) {
+      if (oldStore[id] !== newStore[id]) {
+        changes.push({ key: `${prefix}:${id}`, value: newStore[id] ?? null });
+      }
+    }
+  }
+  return changes;
+}
+
+/**
+ * Compares two stored records by content, ignoring formatting
+ */
+export function isSameRecord(a: string | null, b: string | null): boolean {
+  if (a === null || b === null) return a === b;
+  try {
+    return JSON.stringify(JSON.parse(a)) === JSON.stringify(JSON.parse(b));
+  } catch {
+    return a === b;
+  }
+}
+
+/**
+ * Reports changes other tabs make to the library blob and to the given
+ * standalone localStorage keys. Returns a cleanup function.
+ */
+export function watchOtherTabs(standaloneKeys: string[], onChange: (changes: RemoteChange[]) => void): () => void {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.storageArea !== localStorage) return;
+    if (event.key === STORAGE_KEY) {
+      try {
+        const changes = diffLibraryBlobs(event.oldValue, event.newValue);
+        if (changes.length > 0) onChange(changes);
+      } catch (e) {
+        console.error('Error reading changes from another tab:', e);
+      }
+    } else if (event.key !== null && standaloneKeys.includes(event.key)) {
+      onChange([{ key: event.key, value: event.newValue }]);
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+}
@@ -0,0 +1,95 @@
+/**
+ * Trash Bin
+ * Deleted commands and tags are kept here until restored, purged by hand,
+ * or auto-purged once they are older than the retention period. A trashed
+ * tag remembers which commands it was attached to so restoring it can put
+ * it back on them.
+ */
+
+import type { Command, Tag } from './types';
+
+export type TrashEntry =
+  | { id: string; type: 'command'; deletedAt: number; record: Command }
+  | { id: string; type: 'tag'; deletedAt: number; record: Tag; commandIds: number[] };
+
+// Retention choices in days; 0 keeps items until they are purged by hand
+export const RETENTION_OPTIONS = [7, 30, 90, 0];
+export const DEFAULT_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function createCommandTrashEntry(cmd: Command, now = Date.now()): TrashEntry {
+  return { id: `command-${cmd.id}-${now}`, type: 'command', deletedAt: now, record: cmd };
+}
+
+export function createTagTrashEntry(tag: Tag, commands: Command[], now = Date.now()): TrashEntry {
+  return {
+    id: `tag-${tag.id}-${now}`,
+    type: 'tag',
+    deletedAt: now,
+    record: tag,
+    commandIds: commands.filter(cmd => cmd.tags && cmd.tags.includes(tag.name)).map(cmd => cmd.id)
+  };
+}
+
+/**
+ * Milliseconds until an entry is auto-purged, or null when retention is off
+ */
+export function timeUntilPurge(entry: TrashEntry, retentionDays: number, now = Date.now()): number | null {
+  if (retentionDays <= 0) return null;
+  return entry.deletedAt + retentionDays * DAY_MS - now;
+}
+
+export function findExpiredEntries(entries: TrashEntry[], retentionDays: number, now = Date.now()): TrashEntry[] {
+  return entries.filter(entry => {
+    const remaining = timeUntilPurge(entry, retentionDays, now);
+    return remaining !== null && remaining <= 0;
+  });
+}
+
+/**
+ * Highest command id in use, counting trashed commands so new commands never
+ * take over the id of one that may still be restored (macros refer to ids)
+ */
+export function maxCommandId(commands: Command[], trash: TrashEntry[]): number {
+  const ids = [
+    ...commands.map(c => c.id),
+    ...trash.filter(entry => entry.type === 'command').map(entry => entry.record.id)
+  ];
+  return ids.length > 0 ? Math.max(...ids) : 0;
+}
+
+/**
+ * The command to write back; it gets a fresh id if its old one was reused
+ */
+export function planCommandRestore(entry: Extract<TrashEntry, { type: 'command' }>, commands: Command[]): Command {
+  const cmd = entry.record;
+  if (!commands.some(c => c.id === cmd.id)) return cmd;
+  return { ...cmd, id: Math.max(...commands.map(c => c.id)) + 1 };
+}
+
+/**
+ * The tag to write back (null when a tag with the same name exists again)
+ * and the still-existing commands it has to be re-attached to
+ */
+export function planTagRestore(
+  entry: Extract<TrashEntry, { type: 'tag' }>,
+  tags: Tag[],
+  commands: Command[]
+): { tag: Tag | null; commands: Command[] } {
+  const existing = tags.find(t => t.name.toLowerCase() === entry.record.name.toLowerCase());
+  const name = existing ? existing.name : entry.record.name;
+
+  let tag: Tag | null = null;
+  if (!existing) {
+    tag = tags.some(t => t.id === entry.record.id)
+      ? { ...entry.record, id: Math.max(...tags.map(t => t.id)) + 1 }
+      : entry.record;
+  }
+
+  const updatedCommands = commands
+    .filter(cmd => entry.commandIds.includes(cmd.id) && !(cmd.tags || []).includes(name))
+    .map(cmd => ({ ...cmd, tags: [...(cmd.tags || []), name] }));
+
+  return { tag, commands: updatedCommands };
+}
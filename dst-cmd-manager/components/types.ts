@@ -0,0 +1,38 @@
+/**
+ * Shared data types
+ * Record shapes persisted by the DST Command Manager
+ */
+
+export interface Command {
+  id: number;
+  name: string;
+  command: string;
+  image: string;
+  tags: string[];
+  category: string | null;
+  favorite: boolean;
+  // ISO timestamps; absent on commands saved before they were tracked
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface Tag {
+  id: number;
+  name: string;
+  color: string;
+}
+
+export interface Category {
+  id: string;
+  name: string;
+  color: string;
+  order: number;
+}
+
+export interface Macro {
+  id: number;
+  name: string;
+  commandIds: number[];
+}
+
+export type ViewerFavorites = Record<number, boolean>;
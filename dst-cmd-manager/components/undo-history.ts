@@ -0,0 +1,88 @@
+/**
+ * Undo History
+ * Records library mutations as the storage writes they made, keeping each
+ * key's value before and after, so a mutation and all of its cascades can be
+ * reverted or reapplied as one step. A null value means the key was absent.
+ */
+
+export interface StorageChange {
+  key: string;
+  before: string | null;
+  after: string | null;
+}
+
+export interface HistoryEntry {
+  label: string;
+  changes: StorageChange[];
+}
+
+export interface UndoHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const HISTORY_LIMIT = 50;
+
+export const EMPTY_HISTORY: UndoHistory = { past: [], future: [] };
+
+const serialize = (value: unknown): string | null =>
+  value === null || value === undefined ? null : typeof value === 'string' ? value : JSON.stringify(value);
+
+/**
+ * Builds a change from the record before and after; objects are stored as JSON
+ */
+export function recordChange(key: string, before: unknown, after: unknown): StorageChange {
+  return { key, before: serialize(before), after: serialize(after) };
+}
+
+/**
+ * Adds a new entry and clears the redo stack. Changes that did not alter
+ * anything are dropped, and an entry left with no changes is ignored.
+ */
+export function pushHistory(history: UndoHistory, entry: HistoryEntry): UndoHistory {
+  const changes = entry.changes.filter(change => change.before !== change.after);
+  if (changes.length === 0) return history;
+  return {
+    past: [...history.past, { ...entry, changes }].slice(-HISTORY_LIMIT),
+    future: []
+  };
+}
+
+export function takeUndo(history: UndoHistory): { entry: HistoryEntry; history: UndoHistory } | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    entry,
+    history: { past: history.past.slice(0, -1), future: [...history.future, entry] }
+  };
+}
+
+export function takeRedo(history: UndoHistory): { entry: HistoryEntry; history: UndoHistory } | null {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  return {
+    entry,
+    history: { past: [...history.past, entry], future: history.future.slice(0, -1) }
+  };
+}
+
+/**
+ * The writes that undo (restoring earlier values, last change first) or
+ * redo (reapplying later values in order) an entry
+ */
+export function writesFor(entry: HistoryEntry, direction: 'undo' | 'redo'): { key: string; value: string | null }[] {
+  return direction === 'undo'
+    ? [...entry.changes].reverse().map(change => ({ key: change.key, value: change.before }))
+    : entry.changes.map(change => ({ key: change.key, value: change.after }));
+}
+
+/**
+ * Drops entries that touch any of the given keys, e.g. records another tab
+ * has changed since; undoing or redoing them would overwrite that change
+ */
+export function discardEntriesTouching(history: UndoHistory, keys: Set<string>): UndoHistory {
+  const untouched = (entry: HistoryEntry) => !entry.changes.some(change => keys.has(change.key));
+  const past = history.past.filter(untouched);
+  const future = history.future.filter(untouched);
+  return past.length === history.past.length && future.length === history.future.length ? history : { past, future };
+}
@@ -0,0 +1,280 @@
+/**
+ * Wiki Images
+ * Resolves a card image from the Don't Starve wiki. Candidate titles come
+ * from the prefabs a command's code spawns or gives and from its display
+ * name; each strategy adds scored candidates, cheaper ones first, until one
+ * is good enough. The wiki client is injectable so the pipeline can run
+ * against a fake server.
+ */
+
+import { extractPrefabReferences, findPrefab } from './prefab-catalog';
+
+export type ImageStrategy = 'prefab-file' | 'name-file' | 'prefab-page' | 'name-page' | 'search';
+
+export interface ImageResolution {
+  url: string;
+  strategy: ImageStrategy;
+  // Wiki file or page the image came from
+  title: string;
+}
+
+interface ImageCandidate extends ImageResolution {
+  score: number;
+}
+
+export interface WikiClient {
+  // Requested file title -> image URL, for files that exist
+  imageUrls(fileTitles: string[], signal?: AbortSignal): Promise<Record<string, string>>;
+  // Requested page title -> the page it resolves to (after redirects) and its lead image
+  pageImages(pageTitles: string[], signal?: AbortSignal): Promise<Record<string, { title: string; url: string }>>;
+  // Article titles matching a full-text search, best first
+  search(query: string, limit: number, signal?: AbortSignal): Promise<string[]>;
+}
+
+export class WikiRequestError extends Error {
+  constructor(message: string, public status: number, public retryAfterMs: number | null = null) {
+    super(message);
+    this.name = 'WikiRequestError';
+  }
+}
+
+export const DEFAULT_WIKI_API = 'https://dontstarve.fandom.com/api.php';
+
+// A candidate this good ends the pipeline early
+const CONFIDENT_SCORE = 0.85;
+// Below this a candidate is more likely wrong than helpful
+const MIN_SCORE = 0.35;
+
+const BASE_SCORES: Record<ImageStrategy, number> = {
+  'prefab-file': 1,
+  'prefab-page': 0.95,
+  'name-file': 0.9,
+  'name-page': 0.85,
+  'search': 0.6
+};
+
+// Wiki pages whose title differs from the catalog display name
+const WIKI_PAGE_OVERRIDES: Record<string, string> = {
+  koalefant_summer: 'Koalefant',
+  koalefant_winter: 'Koalefant'
+};
+
+// Leading verbs of command names that are not part of the item's name
+const NAME_VERBS = /^(give|spawn|summon|get|find|go ?to|teleport ?to|create|add)\s+/i;
+
+const FILE_PATTERNS = (title: string) => [`${title}_Build.png`, `${title}.png`, `${title}_Portrait.png`, `${title}_Icon.png`];
+
+const normalizeTitle = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * How closely a wiki title matches a search term, from 0 to 1
+ */
+export function titleSimilarity(term: string, title: string): number {
+  const a = normalizeTitle(term);
+  const b = normalizeTitle(title.replace(/^File:/, '').replace(/\.\w+$/, ''));
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  // Prefab ids run words together ("pigking" vs "Pig King")
+  if (a.replace(/ /g, '') === b.replace(/ /g, '')) return 0.9;
+  if (a.includes(b) || b.includes(a)) return 0.7;
+  const wordsA = new Set(a.split(' '));
+  const wordsB = new Set(b.split(' '));
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  return shared / new Set([...wordsA, ...wordsB]).size;
+}
+
+/**
+ * Wiki page title for a prefab id: an explicit override, the catalog display
+ * name without qualifiers such as "(Summer)", or the id itself
+ */
+export function wikiPageForPrefab(id: string): string {
+  if (WIKI_PAGE_OVERRIDES[id]) return WIKI_PAGE_OVERRIDES[id];
+  const prefab = findPrefab(id);
+  if (prefab) return prefab.name.replace(/\s*\(.*\)\s*$/, '');
+  return id.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+}
+
+// Prefab ids in a command's code that can name a wiki page, in order
+const commandPrefabs = (code: string) =>
+  [...new Set(extractPrefabReferences(code)
+    .map(ref => ref.prefab)
+    .filter(prefab => /^[A-Za-z0-9_]+$/.test(prefab)))];
+
+const PREFAB_KEY_PREFIX = 'prefab:';
+
+/**
+ * Cache key for a command's image: the prefabs its code references, which
+ * the lookup starts from, or its name when it references none. Editing the
+ * code therefore gives the command a fresh lookup.
+ */
+export function imageLookupKey(command: { name: string; command: string }): string {
+  const prefabs = commandPrefabs(command.command || '');
+  return prefabs.length > 0
+    ? PREFAB_KEY_PREFIX + prefabs.join(',').toLowerCase()
+    : command.name.toLowerCase().trim();
+}
+
+/**
+ * A command whose lookup key is `key`, for refreshing a cache entry no
+ * command uses any more
+ */
+export function commandForImageKey(key: string): { name: string; command: string } {
+  if (!key.startsWith(PREFAB_KEY_PREFIX)) return { name: key, command: '' };
+  const prefabs = key.slice(PREFAB_KEY_PREFIX.length).split(',');
+  return { name: wikiPageForPrefab(prefabs[0]), command: prefabs.map(prefab => `c_spawn("${prefab}")`).join('\n') };
+}
+
+/**
+ * Page titles to try for a command: its prefabs' pages and its name with
+ * and without a leading verb ("Give Gold" -> "Gold")
+ */
+export function resolutionTerms(name: string, code: string): { prefabPages: string[]; nameTerms: string[] } {
+  const prefabPages = [...new Set(commandPrefabs(code).map(wikiPageForPrefab))].slice(0, 3);
+  const trimmed = name.trim();
+  const nameTerms = [...new Set([trimmed, trimmed.replace(NAME_VERBS, '')])]
+    .filter(term => term && !prefabPages.includes(term));
+  return { prefabPages, nameTerms };
+}
+
+const best = (candidates: ImageCandidate[]) =>
+  candidates.reduce<ImageCandidate | null>((top, candidate) => !top || candidate.score > top.score ? candidate : top, null);
+
+const strip = (candidate: ImageCandidate | null): ImageResolution | null =>
+  candidate && { url: candidate.url, strategy: candidate.strategy, title: candidate.title };
+
+/**
+ * Runs the strategies in order of cost and returns the best-scoring image,
+ * or null when nothing plausible was found
+ */
+export async function resolveWikiImage(
+  command: { name: string; command: string },
+  client: WikiClient,
+  signal?: AbortSignal
+): Promise<ImageResolution | null> {
+  const { prefabPages, nameTerms } = resolutionTerms(command.name, command.command || '');
+  const candidates: ImageCandidate[] = [];
+  const done = () => {
+    const top = best(candidates);
+    return top && top.score >= CONFIDENT_SCORE;
+  };
+
+  // 1. Files following the wiki's naming patterns, in a single request
+  const files = [
+    ...prefabPages.map(title => ({ title, strategy: 'prefab-file' as const })),
+    ...nameTerms.map(title => ({ title, strategy: 'name-file' as const }))
+  ].flatMap(({ title, strategy }) => FILE_PATTERNS(title).map((file, index) => ({ file: `File:${file}`, strategy, index })));
+  if (files.length > 0) {
+    const urls = await client.imageUrls(files.map(f => f.file), signal);
+    for (const { file, strategy, index } of files) {
+      if (urls[file]) {
+        // Earlier patterns are the wiki's usual inventory images
+        candidates.push({ url: urls[file], strategy, title: file, score: BASE_SCORES[strategy] - index * 0.02 });
+      }
+    }
+  }
+  if (done()) return strip(best(candidates));
+
+  // 2. Lead images of pages with those titles, following redirects
+  const pages = [
+    ...prefabPages.map(title => ({ title, strategy: 'prefab-page' as const })),
+    ...nameTerms.map(title => ({ title, strategy: 'name-page' as const }))
+  ];
+  if (pages.length > 0) {
+    const images = await client.pageImages(pages.map(p => p.title), signal);
+    for (const { title, strategy } of pages) {
+      const image = images[title];
+      if (image) {
+        // A redirect to a differently named page is weaker evidence
+        const similarity = Math.max(titleSimilarity(title, image.title), 0.6);
+        candidates.push({ url: image.url, strategy, title: image.title, score: BASE_SCORES[strategy] * similarity });
+      }
+    }
+  }
+  if (done()) return strip(best(candidates));
+
+  // 3. Full-text search for the most specific term
+  const query = prefabPages[0] ?? nameTerms[nameTerms.length - 1];
+  if (query) {
+    const titles = await client.search(query, 3, signal);
+    if (titles.length > 0) {
+      const images = await client.pageImages(titles, signal);
+      titles.forEach((title, rank) => {
+        const image = images[title];
+        if (image) {
+          const score = BASE_SCORES.search * titleSimilarity(query, image.title) - rank * 0.05;
+          candidates.push({ url: image.url, strategy: 'search', title: image.title, score });
+        }
+      });
+    }
+  }
+
+  const top = best(candidates);
+  return top && top.score >= MIN_SCORE ? strip(top) : null;
+}
+
+interface QueryResponse {
+  query?: {
+    normalized?: { from: string; to: string }[];
+    redirects?: { from: string; to: string }[];
+    pages?: { title: string; missing?: boolean; imageinfo?: { url: string }[]; original?: { source: string } }[];
+    search?: { title: string }[];
+  };
+}
+
+// Follows the API's title normalization and redirects back to each requested title
+const pageFor = (response: QueryResponse, requested: string) => {
+  const query = response.query || {};
+  const normalized = query.normalized?.find(n => n.from === requested)?.to ?? requested;
+  const target = query.redirects?.find(r => r.from === normalized)?.to ?? normalized;
+  return query.pages?.find(page => page.title === target && !page.missing);
+};
+
+/**
+ * MediaWiki API client. `fetch` and the API URL can be replaced, e.g. to
+ * point at a local fake server or to route requests through a rate limiter.
+ */
+export function createWikiClient(options: { apiUrl?: string; fetch?: typeof fetch } = {}): WikiClient {
+  const apiUrl = options.apiUrl || process.env.NEXT_PUBLIC_WIKI_API_URL || DEFAULT_WIKI_API;
+  const fetchImpl = options.fetch || ((input, init) => fetch(input, init));
+
+  const query = async (params: Record<string, string>, signal?: AbortSignal): Promise<QueryResponse> => {
+    const search = new URLSearchParams({ action: 'query', format: 'json', formatversion: '2', origin: '*', ...params });
+    const response = await fetchImpl(`${apiUrl}?${search}`, { signal });
+    if (!response.ok) {
+      const retryAfter = Number(response.headers.get('Retry-After'));
+      throw new WikiRequestError(
+        `Wiki request failed with ${response.status}`,
+        response.status,
+        Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : null
+      );
+    }
+    return response.json();
+  };
+
+  return {
+    imageUrls: async (fileTitles, signal) => {
+      const response = await query({ titles: fileTitles.join('|'), prop: 'imageinfo', iiprop: 'url' }, signal);
+      const urls: Record<string, string> = {};
+      for (const title of fileTitles) {
+        const url = pageFor(response, title)?.imageinfo?.[0]?.url;
+        if (url) urls[title] = url;
+      }
+      return urls;
+    },
+
+    pageImages: async (pageTitles, signal) => {
+      const response = await query({ titles: pageTitles.join('|'), redirects: '1', prop: 'pageimages', piprop: 'original' }, signal);
+      const images: Record<string, { title: string; url: string }> = {};
+      for (const title of pageTitles) {
+        const page = pageFor(response, title);
+        if (page?.original?.source) images[title] = { title: page.title, url: page.original.source };
+      }
+      return images;
+    },
+
+    search: async (text, limit, signal) => {
+      const response = await query({ list: 'search', srsearch: text, srnamespace: '0', srlimit: String(limit) }, signal);
+      return (response.query?.search || []).map(result => result.title);
+    }
+  };
+}
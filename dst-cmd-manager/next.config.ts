@@ -1,8 +1,28 @@
 import type { NextConfig } from "next";
 
+// Names this build's service worker shell cache, so a deploy replaces the
+// cached shell instead of serving the previous one
+const BUILD_ID = process.env.BUILD_ID || Date.now().toString(36);
+
 const nextConfig: NextConfig = {
   /* config options here */
   reactCompiler: true,
+  generateBuildId: async () => BUILD_ID,
+  env: {
+    NEXT_PUBLIC_BUILD_ID: BUILD_ID,
+  },
+  // The service worker must be revalidated on every load so updates roll out
+  async headers() {
+    return [
+      {
+        source: "/sw.js",
+        headers: [
+          { key: "Cache-Control", value: "no-cache, no-store, must-revalidate" },
+          { key: "Content-Type", value: "application/javascript; charset=utf-8" },
+        ],
+      },
+    ];
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,116 @@
+/**
+ * Service Worker
+ * Makes a previously opened library usable offline: the app shell is
+ * precached on install, build assets are cached as they load, and wiki images
+ * and wiki image lookups are kept in their own cache. The shell cache is
+ * named after the build (`?build=` on the worker URL), and activating a new
+ * worker deletes the caches of earlier builds.
+ */
+
+const BUILD_ID = new URL(self.location.href).searchParams.get('build') || 'unversioned';
+const SHELL_CACHE = `dst-shell-${BUILD_ID}`;
+const IMAGE_CACHE = 'dst-wiki-images-v1';
+const LOOKUP_CACHE = 'dst-wiki-lookups-v1';
+const CURRENT_CACHES = [SHELL_CACHE, IMAGE_CACHE, LOOKUP_CACHE];
+
+// Oldest images are evicted beyond this many; cross-origin responses are
+// opaque and browsers reserve several MB of quota for each one
+const MAX_IMAGES = 300;
+
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icon.svg'];
+
+const isWikiImage = url => url.hostname.endsWith('.wikia.nocookie.net');
+const isWikiLookup = url => url.hostname === 'dontstarve.fandom.com' && url.pathname === '/api.php';
+
+// The page's build assets are only known from its HTML
+const precacheShell = async () => {
+  const cache = await caches.open(SHELL_CACHE);
+  await cache.addAll(SHELL_URLS);
+  const page = await cache.match('/');
+  const html = page ? await page.text() : '';
+  const assets = [...new Set(html.match(/\/_next\/static\/[^"'\s)]+/g) || [])];
+  await Promise.all(assets.map(asset => cache.add(asset).catch(() => undefined)));
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    for (const name of await caches.keys()) {
+      if (name.startsWith('dst-') && !CURRENT_CACHES.includes(name)) {
+        await caches.delete(name);
+      }
+    }
+    await self.clients.claim();
+  })());
+});
+
+const trimCache = async (name, maxEntries) => {
+  const cache = await caches.open(name);
+  const keys = await cache.keys();
+  for (const request of keys.slice(0, Math.max(0, keys.length - maxEntries))) {
+    await cache.delete(request);
+  }
+};
+
+// Caching is best effort: a full quota (QuotaExceededError) must not keep
+// the response from reaching the page
+const store = async (cache, cacheName, key, response, maxEntries) => {
+  try {
+    await cache.put(key, response.clone());
+    if (maxEntries) await trimCache(cacheName, maxEntries);
+  } catch (error) {
+    console.warn(`Could not cache ${key.url || key}:`, error);
+  }
+};
+
+const cacheFirst = async (request, cacheName, maxEntries) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  // Opaque (status 0) responses are cross-origin images loaded without CORS
+  if (response.ok || response.type === 'opaque') {
+    await store(cache, cacheName, request, response, maxEntries);
+  }
+  return response;
+};
+
+const networkFirst = async (request, cacheName, fallbackUrl) => {
+  const cache = await caches.open(cacheName);
+  let response;
+  try {
+    response = await fetch(request);
+  } catch (error) {
+    const cached = await cache.match(fallbackUrl || request);
+    if (cached) return cached;
+    throw error;
+  }
+  if (response.ok) await store(cache, cacheName, fallbackUrl || request, response);
+  return response;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (isWikiImage(url)) {
+    event.respondWith(cacheFirst(request, IMAGE_CACHE, MAX_IMAGES));
+  } else if (isWikiLookup(url)) {
+    event.respondWith(networkFirst(request, LOOKUP_CACHE));
+  } else if (url.origin !== self.location.origin || url.pathname.startsWith('/api/')) {
+    // Library API calls and other hosts always go to the network
+    return;
+  } else if (request.mode === 'navigate') {
+    // Every page renders the same app, so the cached shell serves offline
+    event.respondWith(networkFirst(request, SHELL_CACHE, '/'));
+  } else if (url.pathname.startsWith('/_next/static/')) {
+    // Build assets have hashed names and never change
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  } else {
+    event.respondWith(networkFirst(request, SHELL_CACHE));
+  }
+});